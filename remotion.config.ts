@@ -5,5 +5,6 @@
 
 import { Config } from "@remotion/cli/config";
 
+// Studio renders only; the mermaid-video CLI picks JPEG or PNG frames per output format
 Config.setVideoImageFormat("jpeg");
 Config.setOverwriteOutput(true);
@@ -0,0 +1,11 @@
+import { AbsoluteFill } from "remotion";
+
+// パースに失敗したときに表示するフレーム
+export const ErrorFrame: React.FC<{ error: Error; backgroundColor: string }> = ({ error, backgroundColor }) => (
+  <AbsoluteFill style={{ backgroundColor, justifyContent: "center", alignItems: "center", padding: 80 }}>
+    <div style={{ color: "#e15759", fontSize: 36, fontWeight: "bold", fontFamily: "sans-serif", marginBottom: 24 }}>
+      Mermaid parse error
+    </div>
+    <pre style={{ color: "#ccc", fontSize: 20, whiteSpace: "pre-wrap", maxWidth: "100%" }}>{error.message}</pre>
+  </AbsoluteFill>
+);
@@ -1,4 +1,3 @@
-import { useEffect, useState } from "react";
 import {
   AbsoluteFill,
   interpolate,
@@ -8,6 +7,8 @@ import {
 } from "remotion";
 import { z } from "zod";
 import mermaid from "mermaid";
+import { useMermaidSvg } from "./useMermaidSvg";
+import { ErrorFrame } from "./ErrorFrame";
 
 // Schema for props validation
 export const mermaidSchema = z.object({
@@ -30,22 +31,9 @@ export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps, durationInFrames } = useVideoConfig();
-  const [svgContent, setSvgContent] = useState<string>("");
 
-  // Render mermaid diagram on mount
-  useEffect(() => {
-    const renderDiagram = async () => {
-      try {
-        const id = `mermaid-${Date.now()}`;
-        const { svg } = await mermaid.render(id, diagram);
-        setSvgContent(svg);
-      } catch (error) {
-        console.error("Mermaid render error:", error);
-        setSvgContent(`<svg><text x="50" y="50" fill="red">Error rendering diagram</text></svg>`);
-      }
-    };
-    renderDiagram();
-  }, [diagram]);
+  // Render mermaid diagram (frames are held until it is ready)
+  const { svg, error } = useMermaidSvg(diagram);
 
   // Animation: fade in + scale
   const fadeIn = spring({
@@ -72,6 +60,10 @@ export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({
     }
   );
 
+  if (error) {
+    return <ErrorFrame error={error} backgroundColor={backgroundColor} />;
+  }
+
   return (
     <AbsoluteFill
       style={{
@@ -90,7 +82,7 @@ export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({
           justifyContent: "center",
           alignItems: "center",
         }}
-        dangerouslySetInnerHTML={{ __html: svgContent }}
+        dangerouslySetInnerHTML={{ __html: svg ?? "" }}
       />
     </AbsoluteFill>
   );
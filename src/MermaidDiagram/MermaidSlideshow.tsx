@@ -0,0 +1,63 @@
+import { Fragment } from "react";
+import { CalculateMetadataFunction, useVideoConfig } from "remotion";
+import { TransitionSeries, linearTiming } from "@remotion/transitions";
+import { fade } from "@remotion/transitions/fade";
+import { z } from "zod";
+import { DEFAULT_FPS, DEFAULT_TRANSITION_SECONDS, computeTimeline, parseDiagram } from "./model";
+import { MermaidAnimated } from "./MermaidAnimated";
+import { mermaidSlideshowSchema } from "./schema";
+
+export { mermaidSlideshowSchema };
+
+type MermaidSlideshowProps = z.infer<typeof mermaidSlideshowSchema>;
+
+// 各スライドの尺とトランジションの長さ
+const computeSlides = (props: MermaidSlideshowProps, fps: number) => {
+  const { diagrams, transitionSeconds = DEFAULT_TRANSITION_SECONDS, ...timing } = props;
+
+  const slides = diagrams.map((diagram, i) => {
+    let stepCount = 0;
+    try {
+      stepCount = parseDiagram(diagram).steps.length;
+    } catch {
+      // エラーフレームは MermaidAnimated 側で表示する
+    }
+    // 最後以外はトランジションでつなぐので、フェードアウトしない
+    const outroSeconds = i === diagrams.length - 1 ? timing.outroSeconds : 0;
+    const { durationInFrames } = computeTimeline(stepCount, { ...timing, fps, outroSeconds });
+    return { diagram, durationInFrames, outroSeconds };
+  });
+
+  // トランジションはどのスライドよりも短くする
+  const shortest = Math.min(...slides.map((slide) => slide.durationInFrames));
+  const transitionFrames = Math.min(Math.round(transitionSeconds * fps), shortest - 1);
+
+  return { slides, transitionFrames: Math.max(0, transitionFrames) };
+};
+
+export const calculateSlideshowMetadata: CalculateMetadataFunction<MermaidSlideshowProps> = ({ props }) => {
+  const fps = props.fps ?? DEFAULT_FPS;
+  const { slides, transitionFrames } = computeSlides(props, fps);
+  const total = slides.reduce((sum, slide) => sum + slide.durationInFrames, 0);
+  return { fps, durationInFrames: total - transitionFrames * (slides.length - 1) };
+};
+
+export const MermaidSlideshow: React.FC<MermaidSlideshowProps> = ({ diagrams, transitionSeconds, ...animationProps }) => {
+  const { fps } = useVideoConfig();
+  const { slides, transitionFrames } = computeSlides({ diagrams, transitionSeconds, ...animationProps }, fps);
+
+  return (
+    <TransitionSeries>
+      {slides.map((slide, i) => (
+        <Fragment key={i}>
+          {i > 0 && transitionFrames > 0 && (
+            <TransitionSeries.Transition presentation={fade()} timing={linearTiming({ durationInFrames: transitionFrames })} />
+          )}
+          <TransitionSeries.Sequence durationInFrames={slide.durationInFrames}>
+            <MermaidAnimated {...animationProps} diagram={slide.diagram} outroSeconds={slide.outroSeconds} />
+          </TransitionSeries.Sequence>
+        </Fragment>
+      ))}
+    </TransitionSeries>
+  );
+};
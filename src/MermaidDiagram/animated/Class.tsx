@@ -0,0 +1,179 @@
+import { ClassModel, ClassRelationEnd, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, arrowHeadPoints, countVisible, revealOpacity } from "./common";
+import { Point, routeBetween } from "./boxes";
+
+// 端点 (x, y) に angle 方向から入る線の端の記号
+const RelationEndMarker: React.FC<{ end: ClassRelationEnd; point: Point; angle: number; color: string; backgroundColor: string }> = ({
+  end,
+  point,
+  angle,
+  color,
+  backgroundColor,
+}) => {
+  const { x, y } = point;
+  const size = 14;
+  const at = (distance: number, offset: number) =>
+    `${x - distance * Math.cos(angle) - offset * Math.sin(angle)},${y - distance * Math.sin(angle) + offset * Math.cos(angle)}`;
+
+  switch (end) {
+    case "arrow":
+      return (
+        <polyline points={`${at(size, -size / 2)} ${x},${y} ${at(size, size / 2)}`} fill="none" stroke={color} strokeWidth={2} />
+      );
+    case "triangle":
+      return <polygon points={arrowHeadPoints(x, y, angle, size * 1.2)} fill={backgroundColor} stroke={color} strokeWidth={2} />;
+    case "filledDiamond":
+    case "hollowDiamond":
+      return (
+        <polygon
+          points={`${x},${y} ${at(size, -size / 2.5)} ${at(size * 2, 0)} ${at(size, size / 2.5)}`}
+          fill={end === "filledDiamond" ? color : backgroundColor}
+          stroke={color}
+          strokeWidth={2}
+        />
+      );
+    case "lollipop":
+      return <circle cx={x - 7 * Math.cos(angle)} cy={y - 7 * Math.sin(angle)} r={7} fill={backgroundColor} stroke={color} strokeWidth={2} />;
+    default:
+      return null;
+  }
+};
+
+export const ClassAnimation: React.FC<AnimationProps<ClassModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getProgress = (kind: "class" | "member" | "relation", index: number) =>
+    revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  const nodeById = new Map(model.classes.map((node) => [node.id, node]));
+  const lineColor = "#888";
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${model.width} ${model.height}`} style={{ width: "90%", height: "85%" }}>
+        {/* Relations (behind classes) */}
+        {model.relations.map((relation, i) => {
+          const from = nodeById.get(relation.from);
+          const to = nodeById.get(relation.to);
+          if (!from || !to) return null;
+
+          // 線を始点から伸ばし、描き終わってから端の記号とラベルを出す
+          const progress = getProgress("relation", i);
+          const decorationOpacity = progress >= 1 ? 1 : 0;
+
+          const points = routeBetween(from, to, model.classes);
+
+          const first = points[0];
+          const last = points[points.length - 1];
+          const endAngle = Math.atan2(last.y - points[points.length - 2].y, last.x - points[points.length - 2].x);
+          const startAngle = Math.atan2(first.y - points[1].y, first.x - points[1].x);
+          const pathD = points.map((p, j) => `${j === 0 ? "M" : "L"}${p.x},${p.y}`).join(" ");
+
+          // 多重度は端の少し内側、線の横にずらして置く
+          const cardinalityAt = (point: Point, angle: number) => ({
+            x: point.x - 24 * Math.cos(angle) + 12 * Math.sin(angle),
+            y: point.y - 24 * Math.sin(angle) - 12 * Math.cos(angle),
+          });
+          const fromLabel = cardinalityAt(first, startAngle);
+          const toLabel = cardinalityAt(last, endAngle);
+          const mid = points[Math.floor((points.length - 1) / 2)];
+          const midNext = points[Math.floor((points.length - 1) / 2) + 1];
+
+          return (
+            <g key={`relation-${i}`} opacity={progress > 0 ? 1 : 0}>
+              {relation.line === "dashed" ? (
+                // 破線はダッシュ配列が伸長と両立しないのでフェードイン
+                <path d={pathD} fill="none" stroke={lineColor} strokeWidth={2} strokeDasharray="6 4" strokeOpacity={progress} />
+              ) : (
+                <path
+                  d={pathD}
+                  fill="none"
+                  stroke={lineColor}
+                  strokeWidth={2}
+                  pathLength={1}
+                  strokeDasharray={1}
+                  strokeDashoffset={1 - progress}
+                />
+              )}
+              <g opacity={decorationOpacity}>
+                <RelationEndMarker end={relation.fromEnd} point={first} angle={startAngle} color={lineColor} backgroundColor={backgroundColor} />
+                <RelationEndMarker end={relation.toEnd} point={last} angle={endAngle} color={lineColor} backgroundColor={backgroundColor} />
+                {relation.fromCardinality && (
+                  <text x={fromLabel.x} y={fromLabel.y} fill="#ccc" fontSize={13} textAnchor="middle" dominantBaseline="middle">
+                    {relation.fromCardinality}
+                  </text>
+                )}
+                {relation.toCardinality && (
+                  <text x={toLabel.x} y={toLabel.y} fill="#ccc" fontSize={13} textAnchor="middle" dominantBaseline="middle">
+                    {relation.toCardinality}
+                  </text>
+                )}
+                {relation.label && (
+                  <text
+                    x={(mid.x + midNext.x) / 2}
+                    y={(mid.y + midNext.y) / 2 - 8}
+                    fill="#fff"
+                    fontSize={13}
+                    textAnchor="middle"
+                    stroke={backgroundColor}
+                    strokeWidth={4}
+                    paintOrder="stroke"
+                  >
+                    {relation.label}
+                  </text>
+                )}
+              </g>
+            </g>
+          );
+        })}
+
+        {/* Classes: 名前・属性・操作の3区画 */}
+        {model.classes.map((node, i) => {
+          const attributesTop = node.y + node.headerHeight;
+          const methodsTop = attributesTop + node.attributesHeight;
+          return (
+            <g key={node.id} opacity={getProgress("class", i)}>
+              <rect x={node.x} y={node.y} width={node.width} height={node.height} fill="#2d2d44" stroke="#5a5a8a" strokeWidth={2} rx={4} />
+              <line x1={node.x} y1={attributesTop} x2={node.x + node.width} y2={attributesTop} stroke="#5a5a8a" strokeWidth={2} />
+              <line x1={node.x} y1={methodsTop} x2={node.x + node.width} y2={methodsTop} stroke="#5a5a8a" strokeWidth={2} />
+              {node.annotation && (
+                <text x={node.x + node.width / 2} y={node.y + 20} fill="#aaa" fontSize={12} textAnchor="middle">
+                  «{node.annotation}»
+                </text>
+              )}
+              <text
+                x={node.x + node.width / 2}
+                y={attributesTop - 14}
+                fill="#fff"
+                fontSize={16}
+                fontWeight="bold"
+                textAnchor="middle"
+              >
+                {node.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Members: 1行ずつ */}
+        {model.members.map((member, i) => {
+          const node = model.classes[member.classIndex];
+          return (
+            <text
+              key={`member-${i}`}
+              x={node.x + 16}
+              y={node.y + member.offsetY}
+              opacity={getProgress("member", i)}
+              fill={member.section === "method" ? "#9ecbff" : "#ddd"}
+              fontSize={14}
+              fontFamily="monospace"
+              dominantBaseline="middle"
+            >
+              {member.text}
+            </text>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
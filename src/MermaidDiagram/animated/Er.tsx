@@ -0,0 +1,193 @@
+import { ErCardinality, ErModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, countVisible, revealOpacity } from "./common";
+import { Point, routeBetween } from "./boxes";
+
+// 属性行はエンティティのステップの中で上から順に出す
+const rowOpacity = (frame: number, stepIndex: number, framesPerElement: number, row: number, rowCount: number) => {
+  if (stepIndex < 0) return 0;
+  const slot = framesPerElement / (rowCount + 1);
+  const start = stepIndex * framesPerElement + slot * (row + 1) * 0.8;
+  return Math.max(0, Math.min((frame - start) / Math.max(1, slot * 0.8), 1));
+};
+
+// カラスの足記法: 端点 point に angle 方向から入る線の端
+// 内側（エンティティに近い側）が最大、外側が最小の多重度
+const CrowsFoot: React.FC<{ cardinality: ErCardinality; point: Point; angle: number; color: string; backgroundColor: string }> = ({
+  cardinality,
+  point,
+  angle,
+  color,
+  backgroundColor,
+}) => {
+  // 端点から線に沿って distance 戻り、垂直方向に offset ずらした点
+  const at = (distance: number, offset = 0): Point => ({
+    x: point.x - distance * Math.cos(angle) - offset * Math.sin(angle),
+    y: point.y - distance * Math.sin(angle) + offset * Math.cos(angle),
+  });
+  const bar = (distance: number) => {
+    const a = at(distance, -8);
+    const b = at(distance, 8);
+    return <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={color} strokeWidth={2} />;
+  };
+  const circle = (distance: number) => {
+    const c = at(distance);
+    return <circle cx={c.x} cy={c.y} r={5} fill={backgroundColor} stroke={color} strokeWidth={2} />;
+  };
+  const foot = () => {
+    const toe = at(14);
+    return (
+      <g stroke={color} strokeWidth={2} fill="none">
+        {[-9, 0, 9].map((offset) => {
+          const tip = at(0, offset);
+          return <line key={offset} x1={toe.x} y1={toe.y} x2={tip.x} y2={tip.y} />;
+        })}
+      </g>
+    );
+  };
+
+  switch (cardinality) {
+    case "exactlyOne":
+      return (
+        <g>
+          {bar(8)}
+          {bar(15)}
+        </g>
+      );
+    case "zeroOrOne":
+      return (
+        <g>
+          {bar(8)}
+          {circle(20)}
+        </g>
+      );
+    case "oneOrMore":
+      return (
+        <g>
+          {foot()}
+          {bar(20)}
+        </g>
+      );
+    default:
+      return (
+        <g>
+          {foot()}
+          {circle(22)}
+        </g>
+      );
+  }
+};
+
+const KEY_COLORS: Record<string, string> = { PK: "#ffd166", FK: "#7bdff2", UK: "#c3a6ff" };
+
+export const ErAnimation: React.FC<AnimationProps<ErModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getProgress = (kind: "entity" | "relationship", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  const entityById = new Map(model.entities.map((entity) => [entity.id, entity]));
+  const lineColor = "#888";
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${model.width} ${model.height}`} style={{ width: "90%", height: "85%" }}>
+        {/* Relationships (behind entities) */}
+        {model.relationships.map((relationship, i) => {
+          const from = entityById.get(relationship.from);
+          const to = entityById.get(relationship.to);
+          if (!from || !to) return null;
+
+          // 線を伸ばし、描き終わってから多重度とラベルを出す
+          const progress = getProgress("relationship", i);
+          const points = routeBetween(from, to, model.entities);
+          const first = points[0];
+          const last = points[points.length - 1];
+          const startAngle = Math.atan2(first.y - points[1].y, first.x - points[1].x);
+          const endAngle = Math.atan2(last.y - points[points.length - 2].y, last.x - points[points.length - 2].x);
+          const pathD = points.map((p, j) => `${j === 0 ? "M" : "L"}${p.x},${p.y}`).join(" ");
+          const mid = points[Math.floor((points.length - 1) / 2)];
+          const midNext = points[Math.floor((points.length - 1) / 2) + 1];
+
+          return (
+            <g key={`relationship-${i}`} opacity={progress > 0 ? 1 : 0}>
+              {relationship.identifying ? (
+                <path d={pathD} fill="none" stroke={lineColor} strokeWidth={2} pathLength={1} strokeDasharray={1} strokeDashoffset={1 - progress} />
+              ) : (
+                // 破線はダッシュ配列が伸長と両立しないのでフェードイン
+                <path d={pathD} fill="none" stroke={lineColor} strokeWidth={2} strokeDasharray="6 4" strokeOpacity={progress} />
+              )}
+              <g opacity={progress >= 1 ? 1 : 0}>
+                <CrowsFoot cardinality={relationship.fromCardinality} point={first} angle={startAngle} color={lineColor} backgroundColor={backgroundColor} />
+                <CrowsFoot cardinality={relationship.toCardinality} point={last} angle={endAngle} color={lineColor} backgroundColor={backgroundColor} />
+                {relationship.label && (
+                  <text
+                    x={(mid.x + midNext.x) / 2}
+                    y={(mid.y + midNext.y) / 2 - 8}
+                    fill="#fff"
+                    fontSize={13}
+                    textAnchor="middle"
+                    stroke={backgroundColor}
+                    strokeWidth={4}
+                    paintOrder="stroke"
+                  >
+                    {relationship.label}
+                  </text>
+                )}
+              </g>
+            </g>
+          );
+        })}
+
+        {/* Entities: 見出し + 属性行（型・名前・キー・コメント） */}
+        {model.entities.map((entity, i) => {
+          const stepIndex = stepOf("entity", i);
+          return (
+            <g key={entity.id} opacity={getProgress("entity", i)}>
+              <rect x={entity.x} y={entity.y} width={entity.width} height={entity.height} fill="#2d2d44" stroke="#5a5a8a" strokeWidth={2} rx={4} />
+              <rect x={entity.x} y={entity.y} width={entity.width} height={entity.headerHeight} fill="#3d3d5c" stroke="#5a5a8a" strokeWidth={2} rx={4} />
+              <text
+                x={entity.x + entity.width / 2}
+                y={entity.y + entity.headerHeight / 2}
+                fill="#fff"
+                fontSize={16}
+                fontWeight="bold"
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                {entity.label}
+              </text>
+
+              {entity.attributes.map((attribute, row) => {
+                const top = entity.y + entity.headerHeight + row * entity.rowHeight;
+                const y = top + entity.rowHeight / 2;
+                return (
+                  <g key={`${attribute.name}-${row}`} opacity={rowOpacity(frame, stepIndex, framesPerElement, row, entity.attributes.length)}>
+                    {row > 0 && <line x1={entity.x} y1={top} x2={entity.x + entity.width} y2={top} stroke="#44446a" strokeWidth={1} />}
+                    <text x={entity.x + entity.columns.type} y={y} fill="#aaa" fontSize={13} fontFamily="monospace" dominantBaseline="middle">
+                      {attribute.type}
+                    </text>
+                    <text x={entity.x + entity.columns.name} y={y} fill="#fff" fontSize={13} fontFamily="monospace" dominantBaseline="middle">
+                      {attribute.name}
+                    </text>
+                    <text x={entity.x + entity.columns.keys} y={y} fontSize={12} fontWeight="bold" fontFamily="monospace" dominantBaseline="middle">
+                      {attribute.keys.map((key, k) => (
+                        <tspan key={key} fill={KEY_COLORS[key] ?? "#ccc"}>
+                          {k > 0 ? "," : ""}
+                          {key}
+                        </tspan>
+                      ))}
+                    </text>
+                    {attribute.comment && (
+                      <text x={entity.x + entity.columns.comment} y={y} fill="#888" fontSize={12} fontStyle="italic" dominantBaseline="middle">
+                        {attribute.comment}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
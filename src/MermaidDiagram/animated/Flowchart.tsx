@@ -0,0 +1,250 @@
+import { EdgeEnd, EdgeStroke, FlowStyle, FlowchartModel, NodeShape, createStepLookup } from "../model";
+import { FlowchartLayout, NodeBox } from "../layout/flowchart";
+import { AnimationProps, ElementCounter, Stage, arrowHeadPoints, countVisible, revealOpacity } from "./common";
+
+const FILL = "#2d2d44";
+const STROKE = "#5a5a8a";
+const EDGE_COLOR = "#888";
+
+// 線の種類ごとの太さと点線
+const STROKE_STYLES: Record<EdgeStroke, { width: number; dash?: string }> = {
+  normal: { width: 2 },
+  dotted: { width: 2, dash: "3 4" },
+  thick: { width: 4 },
+  invisible: { width: 0 },
+};
+
+// 線の端の記号（tip が枠上の端点、from はその手前の折れ点）
+const EdgeMark: React.FC<{ end: EdgeEnd; tip: { x: number; y: number }; from: { x: number; y: number }; color: string }> = ({
+  end,
+  tip,
+  from,
+  color,
+}) => {
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+  // 丸とバツは端点から少し内側に置く
+  const back = (distance: number) => ({ x: tip.x - Math.cos(angle) * distance, y: tip.y - Math.sin(angle) * distance });
+  switch (end) {
+    case "arrow":
+      return <polygon points={arrowHeadPoints(tip.x, tip.y, angle, 8)} fill={color} />;
+    case "circle": {
+      const c = back(5);
+      return <circle cx={c.x} cy={c.y} r={4} fill={color} />;
+    }
+    case "cross": {
+      const c = back(6);
+      const d = 4;
+      return <path d={`M${c.x - d},${c.y - d} L${c.x + d},${c.y + d} M${c.x + d},${c.y - d} L${c.x - d},${c.y + d}`} stroke={color} strokeWidth={2} />;
+    }
+    case "none":
+      return null;
+  }
+};
+
+// ラベルを出さない形（開始・終了などの記号）
+const SYMBOL_SHAPES: NodeShape[] = ["smallCircle", "filledCircle", "framedCircle"];
+
+// Mermaidが測った大きさ（中心 + 幅・高さ）のまま各形を描く。色は作者の指定を優先
+const NodeOutline: React.FC<{ shape: NodeShape; box: NodeBox; style?: FlowStyle }> = ({ shape, box, style }) => {
+  const { x: cx, y: cy, width: w, height: h } = box;
+  const left = cx - w / 2;
+  const right = cx + w / 2;
+  const top = cy - h / 2;
+  const bottom = cy + h / 2;
+  const fill = style?.fill ?? FILL;
+  const stroke = style?.stroke ?? STROKE;
+  const paint = { fill, stroke, strokeWidth: style?.strokeWidth ?? 2, strokeDasharray: style?.strokeDasharray };
+  // 斜めの辺の水平方向のずれ
+  const slant = Math.min(h / 2, w / 4);
+
+  switch (shape) {
+    case "rounded":
+    case "stadium":
+    case "rect":
+      return <rect x={left} y={top} width={w} height={h} rx={shape === "stadium" ? h / 2 : shape === "rounded" ? 8 : 4} {...paint} />;
+    case "subroutine":
+      return (
+        <g>
+          <rect x={left} y={top} width={w} height={h} {...paint} />
+          <line x1={left + 8} y1={top} x2={left + 8} y2={bottom} stroke={stroke} strokeWidth={paint.strokeWidth} />
+          <line x1={right - 8} y1={top} x2={right - 8} y2={bottom} stroke={stroke} strokeWidth={paint.strokeWidth} />
+        </g>
+      );
+    case "cylinder": {
+      const rx = w / 2;
+      const ry = Math.min(rx / (2.5 + w / 50), h / 4);
+      return (
+        <path
+          d={`M${left},${top + ry} a${rx},${ry} 0 0 0 ${w},0 a${rx},${ry} 0 0 0 ${-w},0 v${h - ry * 2} a${rx},${ry} 0 0 0 ${w},0 v${-(h - ry * 2)}`}
+          {...paint}
+        />
+      );
+    }
+    case "horizontalCylinder": {
+      const ry = h / 2;
+      const rx = Math.min(ry / (2.5 + h / 50), w / 4);
+      return (
+        <path
+          d={`M${left + rx},${top} H${right - rx} a${rx},${ry} 0 0 1 0,${h} H${left + rx} a${rx},${ry} 0 0 1 0,${-h} Z M${right - rx},${top} a${rx},${ry} 0 0 0 0,${h}`}
+          {...paint}
+        />
+      );
+    }
+    case "circle":
+    case "smallCircle":
+      return <circle cx={cx} cy={cy} r={Math.min(w, h) / 2} {...paint} />;
+    case "filledCircle":
+      return <circle cx={cx} cy={cy} r={Math.min(w, h) / 2} {...paint} fill={style?.fill ?? "#ccc"} />;
+    case "doubleCircle":
+    case "framedCircle":
+      return (
+        <g>
+          <circle cx={cx} cy={cy} r={Math.min(w, h) / 2} {...paint} />
+          <circle cx={cx} cy={cy} r={Math.max(1, Math.min(w, h) / 2 - 5)} {...paint} fill={shape === "framedCircle" ? stroke : fill} />
+        </g>
+      );
+    case "asymmetric":
+      return <polygon points={`${left},${top} ${right},${top} ${right},${bottom} ${left},${bottom} ${left + h / 2},${cy}`} {...paint} />;
+    case "diamond":
+      return <polygon points={`${cx},${top} ${right},${cy} ${cx},${bottom} ${left},${cy}`} {...paint} />;
+    case "hexagon":
+      return <polygon points={`${left + h / 4},${top} ${right - h / 4},${top} ${right},${cy} ${right - h / 4},${bottom} ${left + h / 4},${bottom} ${left},${cy}`} {...paint} />;
+    case "parallelogram":
+      return <polygon points={`${left + slant},${top} ${right},${top} ${right - slant},${bottom} ${left},${bottom}`} {...paint} />;
+    case "parallelogramAlt":
+      return <polygon points={`${left},${top} ${right - slant},${top} ${right},${bottom} ${left + slant},${bottom}`} {...paint} />;
+    case "trapezoid":
+      return <polygon points={`${left + slant},${top} ${right - slant},${top} ${right},${bottom} ${left},${bottom}`} {...paint} />;
+    case "trapezoidAlt":
+      return <polygon points={`${left},${top} ${right},${top} ${right - slant},${bottom} ${left + slant},${bottom}`} {...paint} />;
+    case "triangle":
+      return <polygon points={`${cx},${top} ${right},${bottom} ${left},${bottom}`} {...paint} />;
+    case "flippedTriangle":
+      return <polygon points={`${left},${top} ${right},${top} ${cx},${bottom}`} {...paint} />;
+    case "document": {
+      // 下辺が波打つ
+      const wave = h / 8;
+      return (
+        <path
+          d={`M${left},${top} H${right} V${bottom - wave} C${right - w / 4},${bottom - wave * 3} ${left + w / 4},${bottom + wave} ${left},${bottom - wave} Z`}
+          {...paint}
+        />
+      );
+    }
+    case "card":
+      return <polygon points={`${left + 12},${top} ${right},${top} ${right},${bottom} ${left},${bottom} ${left},${top + 12}`} {...paint} />;
+    case "text":
+      return null;
+  }
+};
+
+export const FlowchartAnimation: React.FC<AnimationProps<FlowchartModel> & { layout: FlowchartLayout }> = ({
+  model,
+  layout,
+  frame,
+  framesPerElement,
+  backgroundColor,
+}) => {
+  const stepOf = createStepLookup(model.steps);
+  const getOpacity = (kind: "subgraph" | "node" | "edge", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg
+        viewBox={`${layout.viewBox.x} ${layout.viewBox.y} ${layout.viewBox.width} ${layout.viewBox.height}`}
+        style={{ width: "80%", height: "80%" }}
+      >
+        {/* Subgraphs: 流れの向きに枠が開き、タイトルが出る（親が先に並んでいるので子が上に重なる） */}
+        {model.subgraphs.map((subgraph, i) => {
+          const box = layout.subgraphs.get(subgraph.id);
+          if (!box) return null;
+          const progress = getOpacity("subgraph", i);
+          const top = box.y - box.height / 2;
+          const left = box.x - box.width / 2;
+          const open = 1 - Math.pow(1 - progress, 2);
+          // BT は下から、LR は左から、RL は右から
+          const direction = subgraph.direction ?? model.direction;
+          const horizontal = direction === "LR" || direction === "RL";
+          const width = horizontal ? box.width * open : box.width;
+          const height = horizontal ? box.height : box.height * open;
+          return (
+            <g key={`subgraph-${subgraph.id}`} opacity={progress}>
+              <rect
+                x={direction === "RL" ? left + box.width - width : left}
+                y={direction === "BT" ? top + box.height - height : top}
+                width={width}
+                height={height}
+                fill={subgraph.style?.fill ?? "#232338"}
+                stroke={subgraph.style?.stroke ?? "#4a4a6a"}
+                strokeWidth={subgraph.style?.strokeWidth ?? 2}
+                strokeDasharray={subgraph.style?.strokeDasharray}
+                rx={6}
+              />
+              <text x={box.x} y={top + 20} fill={subgraph.style?.color ?? "#ccc"} fontSize={14} fontWeight="bold" textAnchor="middle">
+                {subgraph.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Edges: Mermaidが引いた線（曲線）をそのまま使い、端の記号は枠上の端点に置く */}
+        {model.edges.map((edge, edgeIndex) => {
+          const route = layout.edges[edgeIndex];
+          if (!route || edge.stroke === "invisible") return null;
+          const { points } = route;
+          const style = STROKE_STYLES[edge.stroke];
+          const color = edge.style?.stroke ?? EDGE_COLOR;
+
+          return (
+            <g key={`edge-${edgeIndex}`} opacity={getOpacity("edge", edgeIndex)}>
+              <path
+                d={route.path}
+                transform={`translate(${route.offset.x} ${route.offset.y})`}
+                fill="none"
+                stroke={color}
+                strokeWidth={edge.style?.strokeWidth ?? style.width}
+                strokeDasharray={edge.style?.strokeDasharray ?? style.dash}
+              />
+              {points.length >= 2 && (
+                <>
+                  <EdgeMark end={edge.end} tip={points[points.length - 1]} from={points[points.length - 2]} color={color} />
+                  <EdgeMark end={edge.start} tip={points[0]} from={points[1]} color={color} />
+                </>
+              )}
+              {edge.label && route.label && (
+                <text
+                  x={route.label.x}
+                  y={route.label.y}
+                  fill={edge.style?.color ?? "#ccc"}
+                  fontSize={12}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  stroke={backgroundColor}
+                  strokeWidth={4}
+                  paintOrder="stroke"
+                >
+                  {edge.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {model.nodes.map((node, nodeIndex) => {
+          const box = layout.nodes.get(node.id);
+          if (!box) return null;
+
+          return (
+            <g key={node.id} opacity={getOpacity("node", nodeIndex)}>
+              <NodeOutline shape={node.shape} box={box} style={node.style} />
+              {!SYMBOL_SHAPES.includes(node.shape) && (
+                <text x={box.x} y={box.y + 4} fill={node.style?.color ?? "#fff"} fontSize={14} textAnchor="middle">{node.label}</text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
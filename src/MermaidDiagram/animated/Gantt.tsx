@@ -0,0 +1,177 @@
+import { GanttModel, GanttTask } from "../model";
+import { textWidth } from "../model/layered";
+import { AnimationProps, ElementCounter, Stage, arrowHeadPoints, revealOpacity } from "./common";
+
+// レイアウト用の寸法（SVG座標系）
+const VIEW_WIDTH = 1600;
+const CHART_LEFT = 230;
+const CHART_RIGHT = VIEW_WIDTH - 40;
+const ROW_HEIGHT = 40;
+const BAR_HEIGHT = 24;
+const FONT_SIZE = 14;
+
+const PLAYHEAD_COLOR = "#ffd166";
+const SECTION_BANDS = ["rgba(90, 90, 138, 0.18)", "rgba(90, 90, 138, 0.08)"];
+
+// 状態ごとの色（crit は枠を赤に）
+const barColors = (task: GanttTask) => {
+  const fill = task.done ? "#44445e" : task.active ? "#4e79a7" : "#5a5a8a";
+  const stroke = task.crit ? "#e15759" : task.done ? "#777" : task.active ? "#7bb0e0" : "#7a7aaa";
+  return { fill: task.crit && !task.done ? "#8a3a4a" : fill, stroke };
+};
+
+export const GanttAnimation: React.FC<AnimationProps<GanttModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const { tasks } = model;
+  const top = model.title ? 80 : 30;
+  const axisY = top + tasks.length * ROW_HEIGHT;
+  const height = axisY + 60;
+
+  const span = model.end - model.start;
+  const xOf = (time: number) => CHART_LEFT + ((time - model.start) / span) * (CHART_RIGHT - CHART_LEFT);
+  const rowY = (i: number) => top + i * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  // 時間軸を描いた後、残りのステップ分で再生ヘッドが開始から終了まで一定速度で進む
+  const axisProgress = revealOpacity(frame, 0, framesPerElement);
+  const sweepFrames = Math.max(1, (model.steps.length - 1) * framesPerElement);
+  const sweep = Math.max(0, Math.min((frame - framesPerElement) / sweepFrames, 1));
+  const playhead = model.start + sweep * span;
+  // 要素1つ分のフェードにかかる時間幅
+  const fadeSpan = (span * framesPerElement * 0.5) / sweepFrames;
+  const appeared = (time: number) => (frame < framesPerElement ? 0 : Math.max(0, Math.min((playhead - time) / fadeSpan, 1)));
+
+  // セクションの行範囲
+  const sectionRows = model.sections.map((_, section) => {
+    const rows = tasks.map((task, i) => (task.section === section ? i : -1)).filter((i) => i >= 0);
+    return rows.length > 0 ? { first: Math.min(...rows), last: Math.max(...rows) } : null;
+  });
+
+  const taskById = new Map(tasks.map((task, i) => [task.id, { task, row: i }]));
+  const started = tasks.filter((task) => frame >= framesPerElement && playhead >= task.start).length;
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${VIEW_WIDTH} ${height}`} style={{ width: "90%", height: "85%" }}>
+        {model.title && (
+          <text x={VIEW_WIDTH / 2} y={45} fill="#fff" fontSize={26} fontWeight="bold" textAnchor="middle" opacity={axisProgress}>
+            {model.title}
+          </text>
+        )}
+
+        {/* Sections: 背景の帯と名前 */}
+        {sectionRows.map((rows, section) => {
+          if (!rows) return null;
+          const y = top + rows.first * ROW_HEIGHT;
+          const bandHeight = (rows.last - rows.first + 1) * ROW_HEIGHT;
+          return (
+            <g key={`section-${section}`} opacity={axisProgress}>
+              <rect x={20} y={y} width={CHART_RIGHT - 20} height={bandHeight} fill={SECTION_BANDS[section % 2]} />
+              <text x={30} y={y + bandHeight / 2} fill="#ccc" fontSize={16} fontWeight="bold" dominantBaseline="middle">
+                {model.sections[section]}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Axis: 基線を伸ばし、目盛りをフェードイン */}
+        <line
+          x1={CHART_LEFT}
+          y1={axisY}
+          x2={CHART_RIGHT}
+          y2={axisY}
+          stroke="#888"
+          strokeWidth={2}
+          pathLength={1}
+          strokeDasharray={1}
+          strokeDashoffset={1 - axisProgress}
+        />
+        {model.ticks.map((tick) => {
+          const x = xOf(tick.time);
+          return (
+            <g key={tick.time} opacity={axisProgress}>
+              <line x1={x} y1={top} x2={x} y2={axisY} stroke="#44446a" strokeWidth={1} />
+              <line x1={x} y1={axisY} x2={x} y2={axisY + 6} stroke="#888" strokeWidth={2} />
+              <text x={x} y={axisY + 24} fill="#aaa" fontSize={13} textAnchor="middle">
+                {tick.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Dependencies: after で参照したタスクの終了から開始へ */}
+        {tasks.map((task, i) =>
+          task.dependsOn.map((id) => {
+            const dependency = taskById.get(id);
+            if (!dependency) return null;
+            const fromX = xOf(dependency.task.end);
+            const toX = xOf(task.start);
+            // 依存先が上の行なら下向き、下の行なら上向き
+            const direction = dependency.row < i ? 1 : -1;
+            const fromY = rowY(dependency.row) + (direction * BAR_HEIGHT) / 2;
+            // 間が空いていれば鉤型で横から、なければ縦にバーの上下から入る
+            const horizontal = toX - fromX > 12;
+            const tip = horizontal
+              ? { x: toX, y: rowY(i), angle: 0 }
+              : { x: toX, y: rowY(i) - (direction * BAR_HEIGHT) / 2, angle: (direction * Math.PI) / 2 };
+            const pathD = horizontal ? `M${fromX},${fromY} V${tip.y} H${tip.x}` : `M${tip.x},${fromY} V${tip.y}`;
+            return (
+              <g key={`dependency-${i}-${id}`} opacity={appeared(task.start)}>
+                <path d={pathD} fill="none" stroke="#aaa" strokeWidth={1.5} strokeDasharray="4 3" />
+                <polygon points={arrowHeadPoints(tip.x, tip.y, tip.angle, 8)} fill="#aaa" />
+              </g>
+            );
+          }),
+        )}
+
+        {/* Tasks: 再生ヘッドに合わせて開始日から終了日まで伸びる */}
+        {tasks.map((task, i) => {
+          const y = rowY(i);
+          const opacity = appeared(task.start);
+          const { fill, stroke } = barColors(task);
+
+          if (task.milestone) {
+            const x = xOf(task.start);
+            const size = (BAR_HEIGHT / 2) * opacity;
+            return (
+              <g key={`task-${i}`} opacity={opacity}>
+                <polygon points={`${x},${y - size} ${x + size},${y} ${x},${y + size} ${x - size},${y}`} fill={fill} stroke={stroke} strokeWidth={2} />
+                <text x={x + BAR_HEIGHT / 2 + 8} y={y} fill="#fff" fontSize={FONT_SIZE} dominantBaseline="middle">
+                  {task.label}
+                </text>
+              </g>
+            );
+          }
+
+          const x = xOf(task.start);
+          const fullWidth = Math.max(2, xOf(task.end) - x);
+          const width = Math.max(0, Math.min(xOf(playhead) - x, fullWidth));
+          // 入りきらないラベルはバーの右に出す
+          const inside = textWidth(task.label, FONT_SIZE) + 16 <= fullWidth;
+          return (
+            <g key={`task-${i}`} opacity={opacity}>
+              <rect x={x} y={y - BAR_HEIGHT / 2} width={width} height={BAR_HEIGHT} fill={fill} stroke={stroke} strokeWidth={2} rx={3} />
+              <text
+                x={inside ? x + fullWidth / 2 : x + fullWidth + 8}
+                y={y}
+                fill={task.done ? "#ccc" : "#fff"}
+                fontSize={FONT_SIZE}
+                textAnchor={inside ? "middle" : "start"}
+                dominantBaseline="middle"
+              >
+                {task.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Playhead */}
+        {frame >= framesPerElement && tasks.length > 0 && (
+          <g opacity={sweep < 1 ? 1 : Math.max(0, 1 - (frame - framesPerElement - sweepFrames) / framesPerElement)}>
+            <line x1={xOf(playhead)} y1={top - 10} x2={xOf(playhead)} y2={axisY} stroke={PLAYHEAD_COLOR} strokeWidth={2} />
+            <polygon points={arrowHeadPoints(xOf(playhead), top - 4, Math.PI / 2, 10)} fill={PLAYHEAD_COLOR} />
+          </g>
+        )}
+      </svg>
+      <ElementCounter visible={(frame >= 0 ? 1 : 0) + started} total={model.steps.length} />
+    </Stage>
+  );
+};
@@ -0,0 +1,171 @@
+import { GitCommit, GitGraphModel, GitPoint, createStepLookup } from "../model";
+import { textWidth } from "../model/layered";
+import { AnimationProps, ElementCounter, Stage, countVisible, revealOpacity } from "./common";
+
+const COMMIT_RADIUS = 10;
+const CORNER_RADIUS = 24;
+
+// from → corner → to の折れ線（角を丸める）
+const elbowPath = (from: GitPoint, corner: GitPoint, to: GitPoint) => {
+  const towards = (target: GitPoint) => {
+    const length = Math.hypot(target.x - corner.x, target.y - corner.y) || 1;
+    const distance = Math.min(CORNER_RADIUS, length / 2);
+    return { x: corner.x + ((target.x - corner.x) / length) * distance, y: corner.y + ((target.y - corner.y) / length) * distance };
+  };
+  const before = towards(from);
+  const after = towards(to);
+  return `M${from.x},${from.y} L${before.x},${before.y} Q${corner.x},${corner.y} ${after.x},${after.y} L${to.x},${to.y}`;
+};
+
+// コミットの記号（原点中心）
+const CommitMark: React.FC<{ commit: GitCommit; color: string; backgroundColor: string }> = ({ commit, color, backgroundColor }) => {
+  switch (commit.type) {
+    case "merge":
+      return (
+        <g>
+          <circle r={COMMIT_RADIUS} fill={color} />
+          <circle r={COMMIT_RADIUS / 2} fill={backgroundColor} />
+        </g>
+      );
+    case "highlight":
+      return <rect x={-COMMIT_RADIUS} y={-COMMIT_RADIUS} width={COMMIT_RADIUS * 2} height={COMMIT_RADIUS * 2} fill={color} stroke="#fff" strokeWidth={2} />;
+    case "reverse":
+      return (
+        <g>
+          <circle r={COMMIT_RADIUS} fill={color} />
+          <path d="M-5,-5 L5,5 M5,-5 L-5,5" stroke={backgroundColor} strokeWidth={2.5} />
+        </g>
+      );
+    case "cherryPick":
+      return (
+        <g>
+          <circle r={COMMIT_RADIUS} fill={backgroundColor} stroke={color} strokeWidth={3} />
+          <circle cx={-3} cy={2} r={2.5} fill={color} />
+          <circle cx={3} cy={2} r={2.5} fill={color} />
+          <path d="M-3,0 L0,-5 L3,0" fill="none" stroke={color} strokeWidth={1.5} />
+        </g>
+      );
+    default:
+      return <circle r={COMMIT_RADIUS} fill={color} />;
+  }
+};
+
+export const GitGraphAnimation: React.FC<AnimationProps<GitGraphModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getProgress = (kind: "branch" | "commit", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+  const horizontal = model.orientation === "LR";
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${model.width} ${model.height}`} style={{ width: "90%", height: "85%" }}>
+        {/* Branches: 分岐位置からレーンを伸ばし、名前を出す */}
+        {model.branches.map((branch, i) => {
+          const progress = getProgress("branch", i);
+          const labelWidth = textWidth(branch.name, 14) + 20;
+          return (
+            <g key={branch.name} opacity={progress > 0 ? 1 : 0}>
+              <line
+                x1={branch.from.x}
+                y1={branch.from.y}
+                x2={branch.to.x}
+                y2={branch.to.y}
+                stroke={branch.color}
+                strokeOpacity={0.35}
+                strokeWidth={2}
+                pathLength={1}
+                strokeDasharray={1}
+                strokeDashoffset={1 - progress}
+              />
+              <g opacity={progress}>
+                <rect
+                  x={branch.label.x - labelWidth / 2}
+                  y={branch.label.y - 13}
+                  width={labelWidth}
+                  height={26}
+                  rx={13}
+                  fill={branch.color}
+                />
+                <text x={branch.label.x} y={branch.label.y} fill="#fff" fontSize={14} fontWeight="bold" textAnchor="middle" dominantBaseline="middle">
+                  {branch.name}
+                </text>
+              </g>
+            </g>
+          );
+        })}
+
+        {/* Connections: 分岐は親の位置で曲がり、マージは合流先の位置で曲がる */}
+        {model.commits.map((commit, i) => {
+          const progress = getProgress("commit", i);
+          return commit.parents.map((parentIndex, p) => {
+            const parent = model.commits[parentIndex];
+            const merging = p > 0;
+            let pathD = `M${parent.x},${parent.y} L${commit.x},${commit.y}`;
+            if (parent.branch !== commit.branch) {
+              const keepParent = merging !== horizontal;
+              const corner = keepParent ? { x: parent.x, y: commit.y } : { x: commit.x, y: parent.y };
+              pathD = elbowPath(parent, corner, commit);
+            }
+            // マージ線はマージ元のブランチの色
+            const color = model.branches[merging ? parent.branch : commit.branch].color;
+            return (
+              <path
+                key={`connection-${i}-${p}`}
+                d={pathD}
+                fill="none"
+                stroke={color}
+                strokeWidth={3}
+                pathLength={1}
+                strokeDasharray={1}
+                strokeDashoffset={1 - progress}
+                opacity={progress > 0 ? 1 : 0}
+              />
+            );
+          });
+        })}
+
+        {/* Commits: 記号を拡大しながら出し、ID とタグを添える */}
+        {model.commits.map((commit, i) => {
+          const progress = getProgress("commit", i);
+          const color = model.branches[commit.branch].color;
+          const tagWidth = commit.tag ? textWidth(commit.tag, 12) + 16 : 0;
+          return (
+            <g key={`commit-${i}`} opacity={progress}>
+              <g transform={`translate(${commit.x} ${commit.y}) scale(${progress})`}>
+                <CommitMark commit={commit} color={color} backgroundColor={backgroundColor} />
+              </g>
+              <text
+                x={horizontal ? commit.x : commit.x + COMMIT_RADIUS + 8}
+                y={horizontal ? commit.y + COMMIT_RADIUS + 18 : commit.y}
+                fill="#aaa"
+                fontSize={12}
+                fontFamily="monospace"
+                textAnchor={horizontal ? "middle" : "start"}
+                dominantBaseline="middle"
+                stroke={backgroundColor}
+                strokeWidth={4}
+                paintOrder="stroke"
+              >
+                {commit.id}
+              </text>
+              {commit.tag && (
+                <g
+                  transform={
+                    horizontal
+                      ? `translate(${commit.x - tagWidth / 2} ${commit.y - COMMIT_RADIUS - 30})`
+                      : `translate(${commit.x - COMMIT_RADIUS - 8 - tagWidth} ${commit.y - 11})`
+                  }
+                >
+                  <rect width={tagWidth} height={22} rx={4} fill="#3d3d5c" stroke="#aaa" strokeWidth={1} />
+                  <text x={tagWidth / 2} y={11} fill="#fff" fontSize={12} textAnchor="middle" dominantBaseline="middle">
+                    {commit.tag}
+                  </text>
+                </g>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
@@ -0,0 +1,101 @@
+import { JourneyModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, TextLines, countVisible, revealOpacity } from "./common";
+
+const FACE_RADIUS = 18;
+
+// 満足度で表情が変わる顔（2.5 で無表情、5 で笑顔、0 でしかめ面）
+const Face: React.FC<{ score: number; backgroundColor: string }> = ({ score, backgroundColor }) => {
+  const curve = ((score - 2.5) / 2.5) * 7;
+  return (
+    <g>
+      <circle r={FACE_RADIUS} fill="#ffd166" stroke={backgroundColor} strokeWidth={2} />
+      <circle cx={-6} cy={-5} r={2.5} fill="#1a1a2e" />
+      <circle cx={6} cy={-5} r={2.5} fill="#1a1a2e" />
+      <path d={`M-8,${6 - curve / 2} Q0,${6 + curve} 8,${6 - curve / 2}`} fill="none" stroke="#1a1a2e" strokeWidth={2} strokeLinecap="round" />
+    </g>
+  );
+};
+
+// ステップ開始から要素1つ分かけて減速しながら 0 → 1
+const easeOutProgress = (frame: number, stepIndex: number, framesPerElement: number) => {
+  if (stepIndex < 0) return 0;
+  const t = Math.max(0, Math.min((frame - stepIndex * framesPerElement) / (framesPerElement * 0.9), 1));
+  return 1 - Math.pow(1 - t, 3);
+};
+
+export const JourneyAnimation: React.FC<AnimationProps<JourneyModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getOpacity = (kind: "section" | "task", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+  const firstOpacity = revealOpacity(frame, 0, framesPerElement);
+  const scoreY = (score: number) => model.scoreBottom - (score / 5) * (model.scoreBottom - model.scoreTop);
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${model.width} ${model.height}`} style={{ width: "90%", height: "85%" }}>
+        {model.title && (
+          <text x={model.width / 2} y={50} fill="#fff" fontSize={28} fontWeight="bold" textAnchor="middle" opacity={firstOpacity}>
+            {model.title}
+          </text>
+        )}
+
+        {/* Actors: 凡例 */}
+        {model.actors.map((actor) => (
+          <g key={actor.name} opacity={firstOpacity}>
+            <circle cx={actor.x + 8} cy={actor.y} r={8} fill={actor.color} />
+            <text x={actor.x + 24} y={actor.y} fill="#ccc" fontSize={14} dominantBaseline="middle">
+              {actor.name}
+            </text>
+          </g>
+        ))}
+
+        {/* Sections */}
+        {model.sections.map((section, i) =>
+          section.name ? (
+            <g key={`section-${i}`} opacity={getOpacity("section", i)}>
+              <rect x={section.x} y={section.y} width={section.width} height={section.height} rx={6} fill={section.color} />
+              <text x={section.x + section.width / 2} y={section.y + section.height / 2} fill="#fff" fontSize={16} fontWeight="bold" textAnchor="middle" dominantBaseline="middle">
+                {section.name}
+              </text>
+            </g>
+          ) : null,
+        )}
+
+        {/* Tasks: 箱を出し、顔が満足度の高さまで上がる */}
+        {model.tasks.map((task, i) => {
+          const opacity = getOpacity("task", i);
+          const rise = easeOutProgress(frame, stepOf("task", i), framesPerElement);
+          const score = task.score * rise;
+          const color = model.sections[task.section].color;
+          const centerX = task.x + task.width / 2;
+          const actorSpacing = 16;
+          const actorsLeft = centerX - ((task.actors.length - 1) * actorSpacing) / 2;
+          return (
+            <g key={`task-${i}`} opacity={opacity}>
+              <rect x={task.x} y={task.y} width={task.width} height={task.height} rx={6} fill={color} fillOpacity={0.3} stroke={color} strokeWidth={2} />
+              <TextLines lines={task.lines} x={centerX} centerY={task.y + task.height / 2} lineHeight={model.lineHeight} fill="#fff" fontSize={14} />
+              {task.actors.map((actor, a) => (
+                <circle
+                  key={actor}
+                  cx={actorsLeft + a * actorSpacing}
+                  cy={task.y + task.height}
+                  r={6}
+                  fill={model.actors[actor].color}
+                  stroke={backgroundColor}
+                  strokeWidth={2}
+                />
+              ))}
+              <line x1={centerX} y1={task.y + task.height + 10} x2={centerX} y2={model.scoreBottom + FACE_RADIUS} stroke="#555" strokeWidth={1.5} strokeDasharray="4 4" />
+              <g transform={`translate(${centerX} ${scoreY(score)})`}>
+                <Face score={score} backgroundColor={backgroundColor} />
+                <text x={FACE_RADIUS + 8} y={0} fill="#fff" fontSize={16} fontWeight="bold" dominantBaseline="middle">
+                  {Number.isInteger(task.score) ? Math.round(score) : score.toFixed(1)}
+                </text>
+              </g>
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
@@ -0,0 +1,85 @@
+import { MindmapModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, countVisible, revealOpacity } from "./common";
+
+// レベルごとの色
+const levelColors = [
+  "#4e79a7", // Level 0 (root) - blue
+  "#e15759", // Level 1 - red
+  "#59a14f", // Level 2 - green
+  "#f28e2b", // Level 3 - orange
+];
+
+export const MindmapAnimation: React.FC<AnimationProps<MindmapModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getOpacity = (index: number) => revealOpacity(frame, stepOf("node", index), framesPerElement);
+
+  // ノードのインデックスを取得
+  const getNodeIndex = (id: string) => model.nodes.findIndex(n => n.id === id);
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox="0 0 900 700" style={{ width: "90%", height: "85%" }}>
+        {/* Connections (behind nodes) */}
+        {model.connections.map((conn, i) => {
+          const from = model.nodes[getNodeIndex(conn.from)];
+          const to = model.nodes[getNodeIndex(conn.to)];
+          if (!from || !to) return null;
+
+          return (
+            <line
+              key={`conn-${i}`}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke="#6a6a9a"
+              strokeWidth={3}
+              opacity={getOpacity(Math.max(getNodeIndex(conn.from), getNodeIndex(conn.to)))}
+            />
+          );
+        })}
+
+        {/* Nodes */}
+        {model.nodes.map((node, i) => {
+          const opacity = getOpacity(i);
+          const color = levelColors[node.level % levelColors.length];
+
+          if (node.isRoot) {
+            // ルートノード（大きめの円）
+            return (
+              <g key={node.id} opacity={opacity}>
+                <circle cx={node.x} cy={node.y} r={70} fill={color} />
+                <text x={node.x} y={node.y + 8} fill="#fff" fontSize={22} textAnchor="middle" fontWeight="bold">
+                  {node.label}
+                </text>
+              </g>
+            );
+          }
+
+          // レベル1は大きめ、レベル2+は小さめ
+          const isMainBranch = node.level === 1;
+          const textWidth = Math.max(node.label.length * (isMainBranch ? 14 : 12) + 30, isMainBranch ? 120 : 80);
+          const textHeight = isMainBranch ? 45 : 35;
+          const fontSize = isMainBranch ? 18 : 14;
+
+          return (
+            <g key={node.id} opacity={opacity}>
+              <rect
+                x={node.x - textWidth / 2}
+                y={node.y - textHeight / 2}
+                width={textWidth}
+                height={textHeight}
+                fill={color}
+                rx={10}
+              />
+              <text x={node.x} y={node.y + fontSize / 3} fill="#fff" fontSize={fontSize} textAnchor="middle" fontWeight={isMainBranch ? "bold" : "normal"}>
+                {node.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
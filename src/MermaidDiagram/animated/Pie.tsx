@@ -0,0 +1,50 @@
+import { PieModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, countVisible, revealOpacity } from "./common";
+
+export const PieAnimation: React.FC<AnimationProps<PieModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getOpacity = (kind: "title" | "segment", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  const centerX = 400;
+  const centerY = 380; // 下に移動
+  const radius = 180;  // 少し小さく
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox="0 0 800 700" style={{ width: "80%", height: "80%" }}>
+        {/* Title */}
+        <text x={centerX} y={60} fill="#fff" fontSize={28} textAnchor="middle" fontWeight="bold" opacity={getOpacity("title", 0)}>
+          {model.title}
+        </text>
+
+        {/* Segments */}
+        {model.segments.map((seg, i) => {
+          const largeArc = seg.endAngle - seg.startAngle > Math.PI ? 1 : 0;
+
+          const x1 = centerX + radius * Math.cos(seg.startAngle);
+          const y1 = centerY + radius * Math.sin(seg.startAngle);
+          const x2 = centerX + radius * Math.cos(seg.endAngle);
+          const y2 = centerY + radius * Math.sin(seg.endAngle);
+
+          const pathD = `M ${centerX} ${centerY} L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z`;
+
+          // ラベルの位置
+          const midAngle = (seg.startAngle + seg.endAngle) / 2;
+          const labelRadius = radius * 1.3;
+          const labelX = centerX + labelRadius * Math.cos(midAngle);
+          const labelY = centerY + labelRadius * Math.sin(midAngle);
+
+          return (
+            <g key={i} opacity={getOpacity("segment", i)}>
+              <path d={pathD} fill={seg.color} stroke="#1a1a2e" strokeWidth={2} />
+              <text x={labelX} y={labelY} fill="#fff" fontSize={14} textAnchor="middle">
+                {seg.label} ({seg.value}%)
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
@@ -0,0 +1,89 @@
+import { QuadrantModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, countVisible, revealOpacity } from "./common";
+
+// quadrant-1（右上）〜 quadrant-4（右下）の背景色
+const QUADRANT_FILLS = ["#2e4a62", "#3d3d5c", "#2d2d44", "#4a3d5c"];
+const DROP_HEIGHT = 80;
+
+export const QuadrantAnimation: React.FC<AnimationProps<QuadrantModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getProgress = (kind: "quadrant" | "point", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  const size = 560;
+  const left = 120;
+  const top = model.title ? 100 : 50;
+  const half = size / 2;
+  // 象限ごとの左上（1: 右上, 2: 左上, 3: 左下, 4: 右下）
+  const origins = [
+    { x: left + half, y: top },
+    { x: left, y: top },
+    { x: left, y: top + half },
+    { x: left + half, y: top + half },
+  ];
+  const firstProgress = getProgress("quadrant", 0);
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 800 ${top + size + 80}`} style={{ width: "80%", height: "85%" }}>
+        {model.title && (
+          <text x={left + half} y={55} fill="#fff" fontSize={26} fontWeight="bold" textAnchor="middle" opacity={firstProgress}>
+            {model.title}
+          </text>
+        )}
+
+        {/* Quadrants */}
+        {origins.map((origin, i) => (
+          <g key={`quadrant-${i}`} opacity={getProgress("quadrant", i)}>
+            <rect x={origin.x} y={origin.y} width={half} height={half} fill={QUADRANT_FILLS[i]} stroke={backgroundColor} strokeWidth={2} />
+            <text x={origin.x + half / 2} y={origin.y + 28} fill="#ccc" fontSize={16} fontWeight="bold" textAnchor="middle">
+              {model.quadrants[i]}
+            </text>
+          </g>
+        ))}
+
+        {/* Axis labels: 低い側と高い側をそれぞれの半分の中央に */}
+        <g opacity={firstProgress} fill="#aaa" fontSize={14}>
+          <text x={left + half / 2} y={top + size + 28} textAnchor="middle">
+            {model.xAxis.low}
+          </text>
+          <text x={left + half * 1.5} y={top + size + 28} textAnchor="middle">
+            {model.xAxis.high}
+          </text>
+          <text transform={`translate(${left - 20} ${top + half * 1.5}) rotate(-90)`} textAnchor="middle">
+            {model.yAxis.low}
+          </text>
+          <text transform={`translate(${left - 20} ${top + half / 2}) rotate(-90)`} textAnchor="middle">
+            {model.yAxis.high}
+          </text>
+        </g>
+
+        {/* Points: 上から落ちてきて止まり、ラベルを出す */}
+        {model.points.map((point, i) => {
+          const progress = getProgress("point", i);
+          const drop = 1 - Math.pow(1 - progress, 2);
+          const x = left + point.x * size;
+          const y = top + (1 - point.y) * size - (1 - drop) * DROP_HEIGHT;
+          return (
+            <g key={`point-${i}`} opacity={progress}>
+              <circle cx={x} cy={y} r={point.radius} fill={point.color} stroke={backgroundColor} strokeWidth={2} />
+              <text
+                x={x}
+                y={y + point.radius + 16}
+                fill="#fff"
+                fontSize={13}
+                textAnchor="middle"
+                opacity={drop}
+                stroke={backgroundColor}
+                strokeWidth={4}
+                paintOrder="stroke"
+              >
+                {point.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
@@ -0,0 +1,66 @@
+import { SankeyModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, countVisible, revealOpacity } from "./common";
+
+const formatValue = (value: number) => String(Math.round(value * 100) / 100);
+
+export const SankeyAnimation: React.FC<AnimationProps<SankeyModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getProgress = (kind: "node" | "link", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${model.width} ${model.height}`} style={{ width: "90%", height: "85%" }}>
+        {/* Links: 流出元から流入先へ伸びながら、帯の太さが値まで広がる */}
+        {model.links.map((link, i) => {
+          const progress = getProgress("link", i);
+          const source = model.nodes[link.source];
+          const target = model.nodes[link.target];
+          const startX = source.x + source.width;
+          const endX = target.x;
+          const midX = (startX + endX) / 2;
+          return (
+            <path
+              key={`link-${i}`}
+              d={`M${startX},${link.sourceY} C${midX},${link.sourceY} ${midX},${link.targetY} ${endX},${link.targetY}`}
+              fill="none"
+              stroke={source.color}
+              strokeOpacity={0.45}
+              strokeWidth={Math.max(1, link.width * progress)}
+              pathLength={1}
+              strokeDasharray={1}
+              strokeDashoffset={1 - progress}
+              opacity={progress > 0 ? 1 : 0}
+            />
+          );
+        })}
+
+        {/* Nodes: 名前と値 */}
+        {model.nodes.map((node, i) => {
+          const onLeft = node.labelSide === "left";
+          return (
+            <g key={node.id} opacity={getProgress("node", i)}>
+              <rect x={node.x} y={node.y} width={node.width} height={Math.max(1, node.height)} fill={node.color} />
+              <text
+                x={onLeft ? node.x - 8 : node.x + node.width + 8}
+                y={node.y + node.height / 2}
+                fill="#fff"
+                fontSize={14}
+                textAnchor={onLeft ? "end" : "start"}
+                dominantBaseline="middle"
+                stroke={backgroundColor}
+                strokeWidth={4}
+                paintOrder="stroke"
+              >
+                {node.id}
+                <tspan fill="#aaa" fontSize={12} dx={6}>
+                  {formatValue(node.value)}
+                </tspan>
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
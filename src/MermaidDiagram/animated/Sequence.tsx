@@ -0,0 +1,213 @@
+import { SequenceActor, SequenceArrow, SequenceBlock, SequenceModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, TextLines, arrowHeadPoints, countVisible, revealOpacity } from "./common";
+
+const LINE_COLOR = "#888";
+// アクティベーションの帯の幅と、重なったときのずれ
+const ACTIVATION_WIDTH = 10;
+const ACTIVATION_OFFSET = 5;
+
+// participant は箱、actor は人型の下に名前
+const ActorHead: React.FC<{ actor: SequenceActor }> = ({ actor }) => {
+  const { x, top } = actor;
+  if (actor.kind === "actor") {
+    return (
+      <g stroke="#ccc" strokeWidth={2} fill="none">
+        <circle cx={x} cy={top + 6} r={6} />
+        <line x1={x} y1={top + 12} x2={x} y2={top + 22} />
+        <line x1={x - 9} y1={top + 15} x2={x + 9} y2={top + 15} />
+        <path d={`M${x - 8},${top + 30} L${x},${top + 22} L${x + 8},${top + 30}`} />
+        <text x={x} y={top + 44} fill="#fff" stroke="none" fontSize={14} textAnchor="middle">{actor.name}</text>
+      </g>
+    );
+  }
+  return (
+    <g>
+      <rect x={x - actor.width / 2} y={top} width={actor.width} height={actor.height} fill="#2d2d44" stroke="#5a5a8a" strokeWidth={2} rx={4} />
+      <text x={x} y={top + 25} fill="#fff" fontSize={14} textAnchor="middle">{actor.name}</text>
+    </g>
+  );
+};
+
+// 線の端: 塗った矢印 / 開いた矢印（非同期）/ バツ
+const MessageEnd: React.FC<{ arrow: SequenceArrow; x: number; y: number; angle: number }> = ({ arrow, x, y, angle }) => {
+  const size = 8;
+  switch (arrow) {
+    case "arrow":
+      return <polygon points={arrowHeadPoints(x, y, angle, size)} fill={LINE_COLOR} />;
+    case "open": {
+      const [tip, left, right] = arrowHeadPoints(x, y, angle, size + 2).split(" ");
+      return <polyline points={`${left} ${tip} ${right}`} fill="none" stroke={LINE_COLOR} strokeWidth={2} />;
+    }
+    case "cross": {
+      const d = 5;
+      const cx = x - Math.cos(angle) * d;
+      return <path d={`M${cx - d},${y - d} L${cx + d},${y + d} M${cx + d},${y - d} L${cx - d},${y + d}`} stroke={LINE_COLOR} strokeWidth={2} />;
+    }
+    case "none":
+      return null;
+  }
+};
+
+// autonumber の番号（線の始点に丸で）
+const MessageNumber: React.FC<{ number: number; x: number; y: number }> = ({ number, x, y }) => (
+  <g>
+    <circle cx={x} cy={y} r={9} fill="#5a5a8a" />
+    <text x={x} y={y} fill="#fff" fontSize={10} fontWeight="bold" textAnchor="middle" dominantBaseline="central">{number}</text>
+  </g>
+);
+
+// 枠は見出しから始まり、再生位置（playhead）に合わせて下へ伸びる
+const BlockFrame: React.FC<{ block: SequenceBlock; bottom: number; opacity: number }> = ({ block, bottom, opacity }) => {
+  const width = block.right - block.left;
+  const height = bottom - block.top;
+  if (block.kind === "rect") {
+    return <rect x={block.left} y={block.top} width={width} height={height} fill={block.color || "rgba(90, 90, 138, 0.2)"} opacity={opacity} rx={2} />;
+  }
+  const tabWidth = block.kind.length * 8 + 20;
+  return (
+    <g opacity={opacity}>
+      <rect x={block.left} y={block.top} width={width} height={height} fill="none" stroke="#7a7aaa" strokeWidth={1.5} />
+      <polygon
+        points={`${block.left},${block.top} ${block.left + tabWidth},${block.top} ${block.left + tabWidth},${block.top + 12} ${block.left + tabWidth - 8},${block.top + 20} ${block.left},${block.top + 20}`}
+        fill="#3a3a5c"
+        stroke="#7a7aaa"
+        strokeWidth={1.5}
+      />
+      <text x={block.left + 8} y={block.top + 14} fill="#ddd" fontSize={11} fontWeight="bold">{block.kind}</text>
+      {block.label && (
+        <text x={(block.left + tabWidth + block.right) / 2} y={block.top + 15} fill="#ccc" fontSize={12} textAnchor="middle">[{block.label}]</text>
+      )}
+      {/* else / and / option の区切りは枠が届いたところから */}
+      {block.dividers
+        .filter((divider) => divider.y <= bottom)
+        .map((divider, i) => (
+          <g key={i}>
+            <line x1={block.left} y1={divider.y} x2={block.right} y2={divider.y} stroke="#7a7aaa" strokeWidth={1.5} strokeDasharray="6,4" />
+            {divider.label && (
+              <text x={(block.left + block.right) / 2} y={divider.y + 16} fill="#ccc" fontSize={12} textAnchor="middle">[{divider.label}]</text>
+            )}
+          </g>
+        ))}
+    </g>
+  );
+};
+
+export const SequenceAnimation: React.FC<AnimationProps<SequenceModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getOpacity = (kind: "actor" | "message" | "note" | "block", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  // 再生位置の高さ: 表示中のステップが届く高さへ、フェードインに合わせて進める
+  const current = Math.min(Math.floor(frame / framesPerElement), model.steps.length - 1);
+  const before = current > 0 ? model.reach[current - 1] : 0;
+  const playhead = current < 0 ? 0 : before + (model.reach[current] - before) * revealOpacity(frame, current, framesPerElement);
+  const grownTo = (top: number, bottom: number) => Math.min(bottom, Math.max(top, playhead));
+
+  // メッセージの高さで開いているアクティベーションの帯の縁（なければライフライン）
+  const edgeX = (actorIndex: number, y: number, side: 1 | -1) => {
+    const actor = model.actors[actorIndex];
+    const levels = model.activations.filter((a) => a.actor === actorIndex && a.top <= y && y <= a.bottom).map((a) => a.level);
+    if (levels.length === 0) return actor.x;
+    return actor.x + Math.max(...levels) * ACTIVATION_OFFSET + (side * ACTIVATION_WIDTH) / 2;
+  };
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${model.width} ${model.height}`} style={{ width: "80%", height: "80%" }}>
+        {/* rect の背景は一番下に */}
+        {model.blocks.map((block, i) =>
+          block.kind === "rect" ? <BlockFrame key={`rect-${i}`} block={block} bottom={grownTo(block.headerBottom, block.bottom)} opacity={getOpacity("block", i)} /> : null,
+        )}
+
+        {/* Actors: ライフラインは destroy されたメッセージで終わり、そこにバツが出る */}
+        {model.actors.map((actor, i) => {
+          const destroyedAt = actor.destroyedBy !== undefined ? model.messages[actor.destroyedBy]?.y : undefined;
+          return (
+            <g key={`actor-${i}`} opacity={getOpacity("actor", i)}>
+              <line x1={actor.x} y1={actor.lifelineTop} x2={actor.x} y2={destroyedAt ?? model.height - 20} stroke="#5a5a8a" strokeWidth={1} strokeDasharray="5,5" />
+              <ActorHead actor={actor} />
+              {destroyedAt !== undefined && (
+                <path
+                  d={`M${actor.x - 9},${destroyedAt - 9} L${actor.x + 9},${destroyedAt + 9} M${actor.x + 9},${destroyedAt - 9} L${actor.x - 9},${destroyedAt + 9}`}
+                  stroke="#e57373"
+                  strokeWidth={3}
+                  opacity={getOpacity("message", actor.destroyedBy!)}
+                />
+              )}
+            </g>
+          );
+        })}
+
+        {/* Activations: 始まったメッセージから、再生位置に合わせてライフライン上を伸びる */}
+        {model.activations.map((activation, i) => {
+          const actor = model.actors[activation.actor];
+          const bottom = grownTo(activation.top, activation.bottom);
+          if (!actor || bottom <= activation.top) return null;
+          return (
+            <rect
+              key={`activation-${i}`}
+              x={actor.x - ACTIVATION_WIDTH / 2 + activation.level * ACTIVATION_OFFSET}
+              y={activation.top}
+              width={ACTIVATION_WIDTH}
+              height={bottom - activation.top}
+              fill="#3a3a5c"
+              stroke="#7a7aaa"
+              strokeWidth={1}
+            />
+          );
+        })}
+
+        {/* Blocks: loop / alt / opt / par / critical / break の枠 */}
+        {model.blocks.map((block, i) =>
+          block.kind === "rect" ? null : <BlockFrame key={`block-${i}`} block={block} bottom={grownTo(block.headerBottom, block.bottom)} opacity={getOpacity("block", i)} />,
+        )}
+
+        {/* Notes */}
+        {model.notes.map((note, i) => (
+          <g key={`note-${i}`} opacity={getOpacity("note", i)}>
+            <rect x={note.x} y={note.y} width={note.width} height={note.height} fill="#4a4a2e" stroke="#a8a060" strokeWidth={1.5} />
+            <TextLines lines={note.lines} x={note.x + note.width / 2} centerY={note.y + note.height / 2} lineHeight={16} fill="#eee" fontSize={12} />
+          </g>
+        ))}
+
+        {/* Messages */}
+        {model.messages.map((msg, i) => {
+          const from = model.actors[msg.from];
+          const to = model.actors[msg.to];
+          if (!from || !to) return null;
+          const dash = msg.type === "dashed" ? "5,5" : undefined;
+
+          // 自己メッセージは右に出て下で戻るループ
+          if (msg.loop) {
+            const startX = edgeX(msg.from, msg.y, 1);
+            const { right, bottom } = msg.loop;
+            const endX = edgeX(msg.from, bottom, 1);
+            return (
+              <g key={`msg-${i}`} opacity={getOpacity("message", i)}>
+                <path d={`M${startX},${msg.y} H${right} V${bottom} H${endX}`} fill="none" stroke={LINE_COLOR} strokeWidth={2} strokeDasharray={dash} />
+                <MessageEnd arrow={msg.arrow} x={endX} y={bottom} angle={Math.PI} />
+                {msg.bidirectional && <MessageEnd arrow={msg.arrow} x={startX} y={msg.y} angle={Math.PI} />}
+                {msg.number !== undefined && <MessageNumber number={msg.number} x={startX} y={msg.y} />}
+                <text x={right + 8} y={(msg.y + bottom) / 2 + 4} fill="#ccc" fontSize={12}>{msg.text}</text>
+              </g>
+            );
+          }
+
+          const direction = to.x > from.x ? 1 : -1;
+          const fromX = edgeX(msg.from, msg.y, direction);
+          // create するメッセージは作られる参加者の箱（人型）の縁まで
+          const toX = to.createdBy === i ? to.x - direction * (to.kind === "actor" ? 12 : to.width / 2) : edgeX(msg.to, msg.y, direction > 0 ? -1 : 1);
+          return (
+            <g key={`msg-${i}`} opacity={getOpacity("message", i)}>
+              <line x1={fromX} y1={msg.y} x2={toX} y2={msg.y} stroke={LINE_COLOR} strokeWidth={2} strokeDasharray={dash} />
+              <MessageEnd arrow={msg.arrow} x={toX} y={msg.y} angle={direction > 0 ? 0 : Math.PI} />
+              {msg.bidirectional && <MessageEnd arrow={msg.arrow} x={fromX} y={msg.y} angle={direction > 0 ? Math.PI : 0} />}
+              {msg.number !== undefined && <MessageNumber number={msg.number} x={fromX} y={msg.y} />}
+              <text x={(fromX + toX) / 2} y={msg.y - 8} fill="#ccc" fontSize={12} textAnchor="middle">{msg.text}</text>
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
@@ -0,0 +1,108 @@
+import { StateModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, arrowHeadPoints, countVisible, revealOpacity } from "./common";
+
+export const StateAnimation: React.FC<AnimationProps<StateModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getOpacity = (kind: "state" | "transition", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  // ノードの位置を取得するヘルパー
+  const getNodePos = (id: string) => {
+    const node = model.nodes.find(n => n.id === id);
+    return node ? { x: node.x, y: node.y } : { x: 0, y: 0 };
+  };
+
+  const nodeWidth = 120;
+  const nodeHeight = 50;
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox="0 0 900 600" style={{ width: "90%", height: "80%" }}>
+        {/* Transitions (behind nodes) */}
+        {model.transitions.map((trans, i) => {
+          const fromPos = getNodePos(trans.from);
+          const toPos = getNodePos(trans.to);
+
+          const dx = toPos.x - fromPos.x;
+          const dy = toPos.y - fromPos.y;
+          const angle = Math.atan2(dy, dx);
+
+          // 矢印の終点を調整（ノードの中心から少し手前）
+          const nodeRadius = 60;
+          const endX = toPos.x - nodeRadius * Math.cos(angle);
+          const endY = toPos.y - nodeRadius * Math.sin(angle);
+          const startX = fromPos.x + (fromPos.x === 100 ? 15 : nodeRadius) * Math.cos(angle);
+          const startY = fromPos.y + (fromPos.x === 100 ? 15 : nodeRadius) * Math.sin(angle);
+
+          // ラベル位置（線の中点から少しオフセット）
+          const midX = (startX + endX) / 2;
+          const midY = (startY + endY) / 2;
+          const labelOffsetX = -dy * 0.15;
+          const labelOffsetY = dx * 0.15;
+
+          return (
+            <g key={`trans-${i}`} opacity={getOpacity("transition", i)}>
+              <path d={`M ${startX} ${startY} L ${endX} ${endY}`} fill="none" stroke="#888" strokeWidth={2} />
+              <polygon points={arrowHeadPoints(endX, endY, angle, 10)} fill="#888" />
+              {trans.label && (
+                <text
+                  x={midX + labelOffsetX}
+                  y={midY + labelOffsetY}
+                  fill="#fff"
+                  fontSize={14}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                >
+                  {trans.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {/* Nodes */}
+        {model.nodes.map((node, i) => {
+          const opacity = getOpacity("state", i);
+
+          if (node.isStart) {
+            // 開始ノード（黒丸）
+            return (
+              <g key={node.id} opacity={opacity}>
+                <circle cx={node.x} cy={node.y} r={15} fill="#5a5a8a" />
+              </g>
+            );
+          }
+
+          if (node.isEnd) {
+            // 終了ノード（二重丸）
+            return (
+              <g key={node.id} opacity={opacity}>
+                <circle cx={node.x} cy={node.y} r={18} fill="none" stroke="#5a5a8a" strokeWidth={2} />
+                <circle cx={node.x} cy={node.y} r={10} fill="#5a5a8a" />
+              </g>
+            );
+          }
+
+          // 通常の状態ノード（角丸四角形）
+          return (
+            <g key={node.id} opacity={opacity}>
+              <rect
+                x={node.x - nodeWidth / 2}
+                y={node.y - nodeHeight / 2}
+                width={nodeWidth}
+                height={nodeHeight}
+                fill="#2d2d44"
+                stroke="#5a5a8a"
+                strokeWidth={2}
+                rx={10}
+              />
+              <text x={node.x} y={node.y + 6} fill="#fff" fontSize={18} textAnchor="middle">
+                {node.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
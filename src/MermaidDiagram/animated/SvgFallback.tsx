@@ -0,0 +1,36 @@
+import { DiagramModel } from "../model";
+import { SvgElements } from "../layout/svgElements";
+import { AnimationProps, ElementCounter, Stage, countVisible, revealOpacity } from "./common";
+
+// MermaidのSVGをそのまま使い、要素を順に表示する（手書きのアニメーションがない図、座標を読めなかった図用）
+export const SvgFallbackAnimation: React.FC<AnimationProps<DiagramModel> & { elements: SvgElements }> = ({
+  model,
+  elements,
+  frame,
+  framesPerElement,
+  backgroundColor,
+}) => {
+  // 尺（ステップ数）は CLI と同じく定義の行数から決まるので、実際の要素をそのステップに割り振る
+  // 最初の要素は最初のステップ、最後の要素は最後のステップに来るように均等に並べる
+  const lastStep = Math.max(model.steps.length - 1, 0);
+  const stepOf = (index: number) => (elements.count > 1 ? Math.round((index * lastStep) / (elements.count - 1)) : 0);
+  const progressOf = (index: number) => revealOpacity(frame, stepOf(index), framesPerElement);
+  // カウンターはステップではなく実際に表示した要素の数
+  const reachedSteps = countVisible(frame, model.steps.length, framesPerElement);
+  const visible = Array.from({ length: elements.count }, (_, i) => i).filter((i) => stepOf(i) < reachedSteps).length;
+
+  const scope = `#${elements.id}`;
+  const rules = Array.from({ length: elements.count }, (_, i) => {
+    const progress = progressOf(i);
+    const target = `${scope} [data-reveal="${i}"]`;
+    return `${target}{opacity:${progress}}${target}[data-draw],${target} [data-draw]{stroke-dasharray:1 !important;stroke-dashoffset:${1 - progress} !important}`;
+  });
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <style>{`${scope}{width:100%;height:100%;max-width:100% !important}${rules.join("")}`}</style>
+      <div style={{ width: "90%", height: "85%", display: "flex", justifyContent: "center", alignItems: "center" }} dangerouslySetInnerHTML={{ __html: elements.svg }} />
+      <ElementCounter visible={visible} total={elements.count} />
+    </Stage>
+  );
+};
@@ -0,0 +1,81 @@
+import { TimelineModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, TextLines, arrowHeadPoints, countVisible, revealOpacity } from "./common";
+
+export const TimelineAnimation: React.FC<AnimationProps<TimelineModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getProgress = (kind: "period" | "event", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  const { columnWidth, periodY, periodHeight, axisY, lineHeight } = model;
+  const periodProgress = model.periods.map((_, i) => getProgress("period", i));
+
+  // 時間軸は表示済みの期間の右端まで伸びる
+  const axisStart = model.periods.length > 0 ? model.periods[0].x - 10 : 0;
+  const axisEnd = Math.max(axisStart, ...model.periods.map((period, i) => period.x + (columnWidth + 14) * periodProgress[i]));
+  const allShown = periodProgress.length > 0 && periodProgress[periodProgress.length - 1] >= 1;
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${model.width} ${model.height}`} style={{ width: "90%", height: "85%" }}>
+        {model.title && (
+          <text x={model.width / 2} y={50} fill="#fff" fontSize={28} fontWeight="bold" textAnchor="middle" opacity={periodProgress[0] ?? 1}>
+            {model.title}
+          </text>
+        )}
+
+        {/* Axis */}
+        {axisEnd > axisStart && (
+          <g>
+            <line x1={axisStart} y1={axisY} x2={axisEnd} y2={axisY} stroke="#888" strokeWidth={3} />
+            {allShown && <polygon points={arrowHeadPoints(axisEnd + 6, axisY, 0, 14)} fill="#888" />}
+          </g>
+        )}
+
+        {/* Sections: 最初の期間と一緒に出す */}
+        {model.sections.map((section, i) => {
+          const first = model.periods.findIndex((period) => period.section === i);
+          if (first < 0) return null;
+          return (
+            <g key={`section-${i}`} opacity={periodProgress[first]}>
+              <rect x={section.x} y={model.sectionY} width={section.width} height={40} rx={6} fill={section.color} fillOpacity={0.35} stroke={section.color} strokeWidth={2} />
+              <text x={section.x + section.width / 2} y={model.sectionY + 20} fill="#fff" fontSize={16} fontWeight="bold" textAnchor="middle" dominantBaseline="middle">
+                {section.name}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Periods: 左から順に */}
+        {model.periods.map((period, i) => {
+          const progress = periodProgress[i];
+          return (
+            <g key={`period-${i}`} opacity={progress} transform={`translate(0 ${(1 - progress) * -12})`}>
+              <rect x={period.x} y={periodY} width={columnWidth} height={periodHeight} rx={8} fill={period.color} />
+              <TextLines lines={period.lines} x={period.x + columnWidth / 2} centerY={periodY + periodHeight / 2} lineHeight={lineHeight} fill="#fff" fontSize={15} bold />
+              <circle cx={period.x + columnWidth / 2} cy={axisY} r={6} fill={period.color} stroke={backgroundColor} strokeWidth={2} />
+            </g>
+          );
+        })}
+
+        {/* Events: 期間の下に積み重ねる */}
+        {model.events.map((event, i) => {
+          const progress = getProgress("event", i);
+          const period = model.periods[event.period];
+          const centerX = period.x + columnWidth / 2;
+          // 1つ上（期間の箱、または前のイベント）からの破線
+          const previous = model.events.filter((other, j) => j < i && other.period === event.period).pop();
+          const connectorTop = previous ? previous.y + previous.height : axisY + 6;
+          return (
+            <g key={`event-${i}`} opacity={progress}>
+              <line x1={centerX} y1={connectorTop} x2={centerX} y2={event.y} stroke={period.color} strokeWidth={2} strokeDasharray="4 3" />
+              <g transform={`translate(0 ${(1 - progress) * -16})`}>
+                <rect x={period.x} y={event.y} width={columnWidth} height={event.height} rx={6} fill="#2d2d44" stroke={period.color} strokeWidth={2} />
+                <TextLines lines={event.lines} x={centerX} centerY={event.y + event.height / 2} lineHeight={lineHeight} fill="#fff" fontSize={13} />
+              </g>
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
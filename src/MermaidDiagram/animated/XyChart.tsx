@@ -0,0 +1,142 @@
+import { XyChartModel, createStepLookup } from "../model";
+import { AnimationProps, ElementCounter, Stage, countVisible, revealOpacity } from "./common";
+
+export const XyChartAnimation: React.FC<AnimationProps<XyChartModel>> = ({ model, frame, framesPerElement, backgroundColor }) => {
+  const stepOf = createStepLookup(model.steps);
+  const getProgress = (kind: "axes" | "datum", index: number) => revealOpacity(frame, stepOf(kind, index), framesPerElement);
+
+  const { plot, horizontal } = model;
+  const axesProgress = getProgress("axes", 0);
+  const bottom = plot.y + plot.height;
+  const right = plot.x + plot.width;
+
+  return (
+    <Stage backgroundColor={backgroundColor}>
+      <svg viewBox={`0 0 ${model.width} ${model.height}`} style={{ width: "85%", height: "85%" }}>
+        {model.title && (
+          <text x={model.width / 2} y={60} fill="#fff" fontSize={26} fontWeight="bold" textAnchor="middle" opacity={axesProgress}>
+            {model.title}
+          </text>
+        )}
+
+        {/* Axes: 補助線と目盛り（縦向きは値が縦軸、横向きは値が横軸） */}
+        <g opacity={axesProgress}>
+          {model.valueTicks.map((tick) => (
+            <g key={`value-${tick.label}`}>
+              {horizontal ? (
+                <line x1={tick.position} y1={plot.y} x2={tick.position} y2={bottom} stroke="#33334d" strokeWidth={1} />
+              ) : (
+                <line x1={plot.x} y1={tick.position} x2={right} y2={tick.position} stroke="#33334d" strokeWidth={1} />
+              )}
+              <text
+                x={horizontal ? tick.position : plot.x - 10}
+                y={horizontal ? bottom + 22 : tick.position}
+                fill="#aaa"
+                fontSize={13}
+                textAnchor={horizontal ? "middle" : "end"}
+                dominantBaseline="middle"
+              >
+                {tick.label}
+              </text>
+            </g>
+          ))}
+          {model.categoryTicks.map((tick, i) => (
+            <text
+              key={`category-${i}`}
+              x={horizontal ? plot.x - 10 : tick.position}
+              y={horizontal ? tick.position : bottom + 22}
+              fill="#ccc"
+              fontSize={13}
+              textAnchor={horizontal ? "end" : "middle"}
+              dominantBaseline="middle"
+            >
+              {tick.label}
+            </text>
+          ))}
+          {/* 下の軸のタイトルと左の軸のタイトル（縦書き） */}
+          {(horizontal ? model.valueTitle : model.categoryTitle) && (
+            <text x={plot.x + plot.width / 2} y={bottom + 52} fill="#ccc" fontSize={15} textAnchor="middle">
+              {horizontal ? model.valueTitle : model.categoryTitle}
+            </text>
+          )}
+          {(horizontal ? model.categoryTitle : model.valueTitle) && (
+            <text
+              x={0}
+              y={0}
+              transform={`translate(${horizontal ? 30 : 40} ${plot.y + plot.height / 2}) rotate(-90)`}
+              fill="#ccc"
+              fontSize={15}
+              textAnchor="middle"
+            >
+              {horizontal ? model.categoryTitle : model.valueTitle}
+            </text>
+          )}
+        </g>
+        <path
+          d={`M${plot.x},${plot.y} V${bottom} H${right}`}
+          fill="none"
+          stroke="#888"
+          strokeWidth={2}
+          pathLength={1}
+          strokeDasharray={1}
+          strokeDashoffset={1 - axesProgress}
+        />
+
+        {/* Bars: 根元から値まで伸びる */}
+        {model.data.map((datum, i) => {
+          if (model.series[datum.series].kind !== "bar") return null;
+          const progress = getProgress("datum", i);
+          const tipX = datum.baseX + (datum.x - datum.baseX) * progress;
+          const tipY = datum.baseY + (datum.y - datum.baseY) * progress;
+          const color = model.series[datum.series].color;
+          return horizontal ? (
+            <rect
+              key={`bar-${i}`}
+              x={Math.min(datum.baseX, tipX)}
+              y={datum.y - datum.thickness / 2}
+              width={Math.abs(tipX - datum.baseX)}
+              height={datum.thickness}
+              fill={color}
+              rx={2}
+            />
+          ) : (
+            <rect
+              key={`bar-${i}`}
+              x={datum.x - datum.thickness / 2}
+              y={Math.min(datum.baseY, tipY)}
+              width={datum.thickness}
+              height={Math.abs(tipY - datum.baseY)}
+              fill={color}
+              rx={2}
+            />
+          );
+        })}
+
+        {/* Lines: 前の点から次の点へ線を伸ばす */}
+        {model.data.map((datum, i) => {
+          const series = model.series[datum.series];
+          if (series.kind !== "line") return null;
+          const progress = getProgress("datum", i);
+          const previous = i > 0 && model.data[i - 1].series === datum.series ? model.data[i - 1] : null;
+          return (
+            <g key={`point-${i}`} opacity={progress > 0 ? 1 : 0}>
+              {previous && (
+                <line
+                  x1={previous.x}
+                  y1={previous.y}
+                  x2={previous.x + (datum.x - previous.x) * progress}
+                  y2={previous.y + (datum.y - previous.y) * progress}
+                  stroke={series.color}
+                  strokeWidth={3}
+                  strokeLinecap="round"
+                />
+              )}
+              <circle cx={datum.x} cy={datum.y} r={5 * progress} fill={series.color} stroke={backgroundColor} strokeWidth={2} />
+            </g>
+          );
+        })}
+      </svg>
+      <ElementCounter visible={countVisible(frame, model.steps.length, framesPerElement)} total={model.steps.length} />
+    </Stage>
+  );
+};
@@ -0,0 +1,64 @@
+// 箱同士をつなぐ線の幾何計算（クラス図・ER図で共通）
+
+export type Point = { x: number; y: number };
+
+// 左上の座標とサイズ
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const center = (node: Box): Point => ({ x: node.x + node.width / 2, y: node.y + node.height / 2 });
+
+// 中心から target へ向かう線とボックスの枠との交点
+export const borderPoint = (node: Box, target: Point): Point => {
+  const c = center(node);
+  const dx = target.x - c.x;
+  const dy = target.y - c.y;
+  if (dx === 0 && dy === 0) return c;
+  const scale = Math.min(
+    dx === 0 ? Infinity : node.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : node.height / 2 / Math.abs(dy),
+  );
+  return { x: c.x + dx * scale, y: c.y + dy * scale };
+};
+
+// 線分が他のボックスを横切るか（端点付近は除く）
+const crossesBox = (a: Point, b: Point, node: Box) => {
+  for (let t = 0.05; t <= 0.95; t += 0.05) {
+    const x = a.x + (b.x - a.x) * t;
+    const y = a.y + (b.y - a.y) * t;
+    if (x > node.x && x < node.x + node.width && y > node.y && y < node.y + node.height) return true;
+  }
+  return false;
+};
+
+// 直線で結び、間のボックスに重なる場合は右側を迂回する
+// 自分自身への線は右上の角を回るループ
+export const routeBetween = (from: Box, to: Box, boxes: Box[]): Point[] => {
+  if (from === to) {
+    const right = from.x + from.width;
+    return [
+      { x: right, y: from.y + from.height * 0.25 },
+      { x: right + 40, y: from.y + from.height * 0.25 },
+      { x: right + 40, y: from.y - 30 },
+      { x: right - from.width * 0.25, y: from.y - 30 },
+      { x: right - from.width * 0.25, y: from.y },
+    ];
+  }
+
+  const start = borderPoint(from, center(to));
+  const end = borderPoint(to, center(from));
+  const blocking = boxes.filter((node) => node !== from && node !== to && crossesBox(start, end, node));
+  if (blocking.length === 0) return [start, end];
+
+  const x = Math.max(...[from, to, ...blocking].map((node) => node.x + node.width)) + 30;
+  return [
+    { x: from.x + from.width, y: center(from).y },
+    { x, y: center(from).y },
+    { x, y: center(to).y },
+    { x: to.x + to.width, y: center(to).y },
+  ];
+};
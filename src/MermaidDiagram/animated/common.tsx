@@ -0,0 +1,55 @@
+import { AbsoluteFill } from "remotion";
+
+// 各アニメーションコンポーネントに共通のprops
+export interface AnimationProps<M> {
+  model: M;
+  frame: number;
+  framesPerElement: number;
+  backgroundColor: string;
+}
+
+// ステップ番号に応じたフェードイン
+export const revealOpacity = (frame: number, stepIndex: number, framesPerElement: number) => {
+  if (stepIndex < 0) return 0;
+  const startFrame = stepIndex * framesPerElement;
+  if (frame < startFrame) return 0;
+  return Math.min((frame - startFrame) / (framesPerElement * 0.5), 1);
+};
+
+// 表示済みステップ数
+export const countVisible = (frame: number, total: number, framesPerElement: number) => {
+  return Array.from({ length: total }, (_, i) => i).filter((i) => frame >= i * framesPerElement).length;
+};
+
+export const Stage: React.FC<{ backgroundColor: string; children: React.ReactNode }> = ({ backgroundColor, children }) => (
+  <AbsoluteFill style={{ backgroundColor, justifyContent: "center", alignItems: "center" }}>{children}</AbsoluteFill>
+);
+
+export const ElementCounter: React.FC<{ visible: number; total: number }> = ({ visible, total }) => (
+  <div style={{ position: "absolute", bottom: 40, left: "50%", transform: "translateX(-50%)", color: "#888", fontSize: 16, fontFamily: "monospace" }}>
+    {visible} / {total} elements
+  </div>
+);
+
+// 折り返し済みの行を中央揃えで並べる
+export const TextLines: React.FC<{ lines: string[]; x: number; centerY: number; lineHeight: number; fill: string; fontSize: number; bold?: boolean }> = ({
+  lines,
+  x,
+  centerY,
+  lineHeight,
+  fill,
+  fontSize,
+  bold,
+}) => (
+  <text x={x} fill={fill} fontSize={fontSize} fontWeight={bold ? "bold" : undefined} textAnchor="middle" dominantBaseline="middle">
+    {lines.map((line, i) => (
+      <tspan key={i} x={x} y={centerY + (i - (lines.length - 1) / 2) * lineHeight}>
+        {line}
+      </tspan>
+    ))}
+  </text>
+);
+
+// 矢印の先端（三角形）の頂点
+export const arrowHeadPoints = (x: number, y: number, angle: number, size: number) =>
+  `${x},${y} ${x - size * Math.cos(angle - Math.PI / 6)},${y - size * Math.sin(angle - Math.PI / 6)} ${x - size * Math.cos(angle + Math.PI / 6)},${y - size * Math.sin(angle + Math.PI / 6)}`;
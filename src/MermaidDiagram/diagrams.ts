@@ -86,3 +86,265 @@ export const mindmap = `mindmap
             PyTorch
             LangChain
             OpenAI`;
+
+// 7. ER図
+export const erDiagram = `erDiagram
+    USER ||--o{ POST : writes
+    POST ||--o{ COMMENT : has
+    USER ||--o{ COMMENT : writes
+    USER {
+        int id PK
+        string name
+        string email UK
+    }
+    POST {
+        int id PK
+        int user_id FK
+        string title
+        text body
+    }
+    COMMENT {
+        int id PK
+        int post_id FK
+        int user_id FK
+        text body "最大1000文字"
+    }`;
+
+// 8. ガントチャート
+export const ganttChart = `gantt
+    title リリース計画
+    dateFormat YYYY-MM-DD
+    axisFormat %m/%d
+    excludes weekends
+    section 設計
+    要件定義        :done, req, 2024-04-01, 5d
+    基本設計        :done, design, after req, 4d
+    section 開発
+    API実装         :crit, active, api, after design, 8d
+    画面実装        :ui, after design, 10d
+    結合テスト      :crit, test, after api ui, 5d
+    section リリース
+    リリース判定    :milestone, after test, 0d
+    ドキュメント    :docs, 2024-04-15, until test`;
+
+// 9. Gitグラフ（リリースフロー）
+export const gitGraph = `gitGraph
+    commit id: "init"
+    branch develop
+    checkout develop
+    commit id: "setup"
+    branch feature/login
+    checkout feature/login
+    commit id: "login-form"
+    commit id: "login-api"
+    checkout develop
+    merge feature/login
+    branch release/1.0
+    checkout release/1.0
+    commit id: "bump" type: HIGHLIGHT
+    checkout main
+    merge release/1.0 tag: "v1.0"
+    checkout develop
+    merge main
+    branch hotfix
+    checkout hotfix
+    commit id: "fix-crash"
+    checkout main
+    merge hotfix tag: "v1.0.1"`;
+
+// 10. タイムライン
+export const timeline = `timeline
+    title プロダクトの歩み
+    section 立ち上げ
+    2021 : 構想 : PoC
+    2022 : β版リリース
+         : 最初の顧客
+    section 成長
+    2023 : 正式リリース : API公開 : 海外展開
+    2024 : AI機能`;
+
+// 11. ユーザージャーニー
+export const userJourney = `journey
+    title 新規ユーザーの初日
+    section サインアップ
+      LPを見る: 4: ユーザー
+      アカウント作成: 2: ユーザー, サポート
+    section オンボーディング
+      チュートリアル: 3: ユーザー
+      最初のプロジェクト作成: 5: ユーザー
+      チームを招待: 4: ユーザー, 管理者`;
+
+// 12. XYチャート（棒 + 折れ線）
+export const xyChart = `xychart-beta
+    title "月別売上"
+    x-axis [1月, 2月, 3月, 4月, 5月, 6月]
+    y-axis "売上（万円）" 0 --> 120
+    bar [52, 64, 71, 88, 95, 110]
+    line [40, 58, 66, 80, 90, 104]`;
+
+// 13. 4象限チャート
+export const quadrantChart = `quadrantChart
+    title 施策の優先度
+    x-axis 工数が大きい --> 工数が小さい
+    y-axis 効果が小さい --> 効果が大きい
+    quadrant-1 すぐやる
+    quadrant-2 計画する
+    quadrant-3 後回し
+    quadrant-4 余裕があれば
+    オンボーディング改善: [0.75, 0.8]
+    新料金プラン: [0.3, 0.7]
+    ダークモード: [0.8, 0.3]
+    レガシー移行: [0.15, 0.25]`;
+
+// 14. サンキー図
+export const sankeyDiagram = `sankey-beta
+    広告,サイト訪問,500
+    検索,サイト訪問,800
+    SNS,サイト訪問,300
+    サイト訪問,会員登録,600
+    サイト訪問,離脱,1000
+    会員登録,有料プラン,200
+    会員登録,無料プラン,400`;
+
+// 15. 要求図（手書きのアニメーションがない図: MermaidのSVGをそのまま順に表示）
+export const requirementDiagram = `requirementDiagram
+    requirement 応答時間 {
+      id: 1
+      text: 検索は1秒以内に結果を返す
+      risk: high
+      verifymethod: test
+    }
+    functionalRequirement 検索 {
+      id: 1.1
+      text: キーワードで記事を検索できる
+      risk: medium
+      verifymethod: demonstration
+    }
+    element 検索API {
+      type: service
+    }
+    element 負荷試験 {
+      type: test suite
+    }
+    検索 - refines -> 応答時間
+    検索API - satisfies -> 検索
+    負荷試験 - verifies -> 応答時間`;
+
+// 16. フローチャートのノード形状
+export const flowchartShapes = `flowchart LR
+    start@{ shape: sm-circ } --> A([受付])
+    A --> B[/入力/] --> C[[サブルーチン]] --> D{判定}
+    D -->|OK| E[(データベース)]
+    D -->|NG| F{{準備}}
+    F --> G>通知] --> H[/台形\\]
+    E --> I[\\逆台形/] --> J((完了))
+    H --> K@{ shape: doc, label: "報告書" }
+    J --> L(((終了)))
+    K --> stop@{ shape: fr-circ }`;
+
+// 17. フローチャートの線の種類
+export const flowchartLinks = `flowchart LR
+    A[入力] -- 検証 --> B{形式OK?}
+    B ==>|Yes| C[保存]
+    B -.->|No| D[エラー表示]
+    D -. 再入力 .-> A
+    C <--> E[(キャッシュ)]
+    C --o F[監査ログ]
+    C --x G[旧API]
+    F & G --- H[運用チーム]
+    H ~~~ I[備考]`;
+
+// 18. サブグラフを使った構成図
+export const flowchartSubgraphs = `flowchart LR
+    user([利用者]) --> lb
+    subgraph web [Webレイヤー]
+      lb[ロードバランサー] --> app1[APIサーバー1] & app2[APIサーバー2]
+    end
+    subgraph data [データレイヤー]
+      subgraph primary [プライマリ]
+        db[(DB)]
+      end
+      cache[(キャッシュ)]
+    end
+    app1 & app2 --> cache
+    web --> primary
+    db -.-> backup[バックアップ]`;
+
+// 19. スタイル指定（classDef / ::: / style / linkStyle）
+export const styledFlowchart = `flowchart TD
+    A[注文受付] --> B{在庫あり?}
+    B -->|Yes| C[発送]:::ok
+    B -->|No| D[在庫切れ通知]:::error
+    D --> E[入荷待ち]
+    E --> B
+    classDef ok fill:#1e5631,stroke:#4caf50,color:#e8f5e9
+    classDef error fill:#7f1d1d,stroke:#ef4444,stroke-width:3px,color:#fee2e2
+    class E error
+    style A fill:#1e3a5f,stroke:#60a5fa
+    linkStyle 2 stroke:#ef4444,stroke-width:3px,color:#fca5a5
+    linkStyle 4 stroke-dasharray: 4 4`;
+
+// 20. 左から右へ流れる図と戻り線（サブグラフ内だけ上から下）
+export const flowchartLoopback = `flowchart LR
+    start([開始]) --> build[ビルド] --> test{テスト}
+    test -->|失敗| fix[修正]
+    fix --> build
+    test -->|成功| deploy
+    subgraph release [リリース]
+      direction TB
+      deploy[デプロイ] --> verify[動作確認]
+    end
+    verify --> done([完了])`;
+
+// 21. 参加者の書き方（actor・暗黙の参加者・create / destroy・自己メッセージ・矢印の種類）
+export const sequenceParticipants = `sequenceDiagram
+    actor U as 利用者
+    participant Web as Web サーバー
+    U->>Web: ログイン
+    Web->>Web: 入力チェック
+    Web->>Auth: 認証
+    Auth-->>Web: トークン
+    create participant S as セッション
+    Web-)S: 作成（非同期）
+    U<<->>Web: 通信確立
+    Web--xU: タイムアウト通知
+    destroy S
+    Web-->S: 破棄`;
+
+// 22. 制御ブロック・ノート・アクティベーション・autonumber（APIの流れ）
+export const sequenceBlocks = `sequenceDiagram
+    autonumber
+    actor U as 利用者
+    participant API
+    participant DB as データベース
+    Note over U,API: セッション開始
+    U->>+API: GET /orders
+    rect rgba(90, 90, 160, 0.25)
+      API->>API: トークン検証
+      alt 有効なトークン
+        API->>+DB: SELECT orders
+        DB-->>-API: 行データ
+      else 期限切れ
+        API-->>U: 401 Unauthorized
+      end
+    end
+    opt キャッシュあり
+      Note right of API: 60秒キャッシュ
+    end
+    loop 5件ずつ
+      API-)U: 部分レスポンス
+    end
+    par 通知
+      API-)DB: アクセスログ
+    and 監査
+      API-)DB: 監査ログ
+    end
+    critical 課金
+      API->>DB: 残高更新
+    option 失敗
+      API-->>U: 402 Payment Required
+    end
+    break 上限超過
+      API-->>U: 429 Too Many Requests
+    end
+    API-->>-U: 200 OK`;
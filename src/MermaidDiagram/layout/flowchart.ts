@@ -0,0 +1,165 @@
+import { FlowDirection, FlowchartModel } from "../model";
+import { offsetOf } from "./svg";
+
+// Mermaidが出力したSVGから読み取る座標（ブラウザ専用）
+
+export interface NodeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Mermaidが引いた線をそのまま使う
+export interface EdgeRoute {
+  // path の d（曲線を含む）と、それを置く位置
+  path: string;
+  offset: { x: number; y: number };
+  // ノードの枠から枠までの折れ点（矢印の先端と向きに使う）
+  points: { x: number; y: number }[];
+  // ラベルの中心（ラベルがなければ undefined）
+  label?: { x: number; y: number };
+}
+
+export interface FlowchartLayout {
+  nodes: Map<string, NodeBox>;
+  // サブグラフの枠（キーはサブグラフID）
+  subgraphs: Map<string, NodeBox>;
+  // model.edges と同じ順序（SVGに見つからない線は null）
+  edges: (EdgeRoute | null)[];
+  viewBox: { x: number; y: number; width: number; height: number };
+}
+
+// data-points は折れ点の JSON を base64 にしたもの
+const decodePoints = (encoded: string | null): { x: number; y: number }[] => {
+  if (!encoded) return [];
+  try {
+    const points: unknown = JSON.parse(atob(encoded));
+    return Array.isArray(points) ? points.filter((p) => Number.isFinite(p?.x) && Number.isFinite(p?.y)) : [];
+  } catch {
+    return [];
+  }
+};
+
+type Point = { x: number; y: number };
+
+// 流れの向き（main）と、戻り線を膨らませる側（cross: 縦の流れは右、横の流れは下）
+const AXES: Record<FlowDirection, { main: Point; cross: Point }> = {
+  TB: { main: { x: 0, y: 1 }, cross: { x: 1, y: 0 } },
+  BT: { main: { x: 0, y: -1 }, cross: { x: 1, y: 0 } },
+  LR: { main: { x: 1, y: 0 }, cross: { x: 0, y: 1 } },
+  RL: { main: { x: -1, y: 0 }, cross: { x: 0, y: 1 } },
+};
+// 戻り線がノードの横を回り込むときの間隔
+const LOOP_GAP = 40;
+
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
+// 中心から axis 方向へ枠まで（軸に沿った向きだけを扱う）
+const reach = (box: NodeBox, axis: Point) => (Math.abs(axis.x) * box.width + Math.abs(axis.y) * box.height) / 2;
+const sideOf = (box: NodeBox, axis: Point, along: Point = { x: 0, y: 0 }, shift = 0): Point => ({
+  x: box.x + axis.x * reach(box, axis) + along.x * shift,
+  y: box.y + axis.y * reach(box, axis) + along.y * shift,
+});
+
+// SVGに線が見つからなかったときの代わりの経路（Mermaidと同じ向きの面から出入りする）
+// 戻り線は流れの横に回り込み、前向きの線は向かい合う面どうしを結ぶ
+function fallbackRoute(from: NodeBox, to: NodeBox, direction: FlowDirection, loopback: boolean): EdgeRoute {
+  const { main, cross } = AXES[direction];
+  let points: Point[];
+  if (loopback) {
+    // 自己ループは同じ面の上流側から出て下流側へ戻る
+    const shift = from === to ? reach(from, main) / 2 : 0;
+    const start = sideOf(from, cross, main, shift);
+    const end = sideOf(to, cross, main, -shift);
+    const outer = Math.max(dot(sideOf(from, cross), cross), dot(sideOf(to, cross), cross)) + LOOP_GAP;
+    const push = (point: Point): Point => ({ x: point.x + cross.x * (outer - dot(point, cross)), y: point.y + cross.y * (outer - dot(point, cross)) });
+    points = [start, push(start), push(end), end];
+  } else if (dot({ x: to.x - from.x, y: to.y - from.y }, main) > 0) {
+    points = [sideOf(from, main), sideOf(to, { x: -main.x, y: -main.y })];
+  } else {
+    // 同じ段に並んだノードどうしは横の面で結ぶ
+    const toward = dot({ x: to.x - from.x, y: to.y - from.y }, cross) >= 0 ? cross : { x: -cross.x, y: -cross.y };
+    points = [sideOf(from, toward), sideOf(to, { x: -toward.x, y: -toward.y })];
+  }
+  const middle = Math.floor((points.length - 1) / 2);
+  return {
+    path: points.map((p, i) => `${i === 0 ? "M" : "L"}${p.x},${p.y}`).join(" "),
+    offset: { x: 0, y: 0 },
+    points,
+    label: { x: (points[middle].x + points[middle + 1].x) / 2, y: (points[middle].y + points[middle + 1].y) / 2 },
+  };
+}
+
+export function readFlowchartLayout(svgEl: SVGSVGElement, model: FlowchartModel): FlowchartLayout {
+  const viewBox = svgEl.getAttribute("viewBox")?.split(" ").map(Number) || [0, 0, 800, 600];
+
+  // SVGからノードの座標・サイズを取得
+  // 形の多くは path で描かれるので、属性ではなく一度ページに置いて実際の大きさを測る
+  const host = document.createElement("div");
+  host.style.cssText = "position: absolute; visibility: hidden; pointer-events: none";
+  document.body.appendChild(host);
+  host.appendChild(svgEl);
+
+  const nodes = new Map<string, NodeBox>();
+  svgEl.querySelectorAll(".node").forEach((node) => {
+    if (!node.getAttribute("transform")) return;
+
+    // ノードIDからプレフィックスを除去（flowchart-A-123 → A）
+    const idMatch = (node.getAttribute("id") || "").match(/flowchart-(.+)-\d+$/);
+    if (!idMatch) return;
+
+    // getBBox はノード自身の座標系（translate の前）なので、中心を足し合わせる
+    const box = (node as SVGGraphicsElement).getBBox();
+    const offset = offsetOf(node);
+    nodes.set(idMatch[1], {
+      x: offset.x + box.x + box.width / 2,
+      y: offset.y + box.y + box.height / 2,
+      width: box.width || 100,
+      height: box.height || 40,
+    });
+  });
+
+  // サブグラフの枠は .cluster の外側の rect
+  const subgraphs = new Map<string, NodeBox>();
+  svgEl.querySelectorAll(".cluster").forEach((cluster) => {
+    const rect = cluster.querySelector("rect");
+    const id = cluster.getAttribute("id");
+    if (!rect || !id) return;
+    const box = rect.getBBox();
+    const offset = offsetOf(rect);
+    subgraphs.set(id, { x: offset.x + box.x + box.width / 2, y: offset.y + box.y + box.height / 2, width: box.width, height: box.height });
+  });
+  host.remove();
+
+  // 線のIDは e1@--> の指定か L_始点_終点_連番（同じ2点間の線が複数あれば文書順に割り当てる）
+  const paths = Array.from(svgEl.querySelectorAll("path[data-edge]"));
+  const labels = new Map<string, { x: number; y: number }>();
+  svgEl.querySelectorAll(".edgeLabel").forEach((edgeLabel) => {
+    const id = edgeLabel.querySelector("[data-id]")?.getAttribute("data-id");
+    if (id) labels.set(id, offsetOf(edgeLabel));
+  });
+  const used = new Set<Element>();
+
+  const edges = model.edges.map((edge): EdgeRoute | null => {
+    const prefix = `L_${edge.from}_${edge.to}_`;
+    const matches = (id: string) => (edge.id ? id === edge.id : id.startsWith(prefix));
+    const path = paths.find((candidate) => !used.has(candidate) && matches(candidate.getAttribute("data-id") ?? ""));
+    if (!path) {
+      const from = nodes.get(edge.from) ?? subgraphs.get(edge.from);
+      const to = nodes.get(edge.to) ?? subgraphs.get(edge.to);
+      return from && to ? fallbackRoute(from, to, model.direction, edge.loopback ?? false) : null;
+    }
+    used.add(path);
+
+    const offset = offsetOf(path);
+    const id = path.getAttribute("data-id") ?? "";
+    return {
+      path: path.getAttribute("d") ?? "",
+      offset,
+      points: decodePoints(path.getAttribute("data-points")).map((p) => ({ x: p.x + offset.x, y: p.y + offset.y })),
+      label: edge.label ? labels.get(id) : undefined,
+    };
+  });
+
+  return { nodes, subgraphs, edges, viewBox: { x: viewBox[0], y: viewBox[1], width: viewBox[2], height: viewBox[3] } };
+}
@@ -0,0 +1,16 @@
+// MermaidのSVGを読むときの共通処理（ブラウザ専用）
+
+export const TRANSLATE = /translate\(\s*(-?[\d.]+(?:e-?\d+)?)[\s,]+(-?[\d.]+(?:e-?\d+)?)/;
+
+// 自身と祖先の translate を足し合わせた位置（サブグラフなどは入れ子の g でずらされる）
+export function offsetOf(el: Element): { x: number; y: number } {
+  const offset = { x: 0, y: 0 };
+  for (let current: Element | null = el; current && current.tagName.toLowerCase() !== "svg"; current = current.parentElement) {
+    const match = (current.getAttribute("transform") ?? "").match(TRANSLATE);
+    if (match) {
+      offset.x += parseFloat(match[1]);
+      offset.y += parseFloat(match[2]);
+    }
+  }
+  return offset;
+}
@@ -0,0 +1,154 @@
+// Mermaidが出力したSVGの要素に表示順を付ける（ブラウザ専用）
+// 手書きのアニメーションがない図のフォールバック用
+
+import { TRANSLATE, offsetOf } from "./svg";
+
+export interface SvgElements {
+  // data-reveal（表示順）と data-draw（線として描く path）を付けたSVG
+  svg: string;
+  id: string;
+  count: number;
+}
+
+type ElementKind = "cluster" | "node" | "edge" | "edgeLabel" | "other";
+
+interface SvgItem {
+  el: Element;
+  kind: ElementKind;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// 要素ではなく入れ物として中を辿るグループ
+const CONTAINER_CLASSES = ["root", "nodes", "edges", "edgePaths", "edgeLabels", "clusters"];
+// 表示しない・順番を付けないタグ
+const IGNORED_TAGS = ["style", "defs", "marker", "title", "desc", "script"];
+
+const classesOf = (el: Element) => (el.getAttribute("class") ?? "").split(/\s+/).filter(Boolean);
+const tagOf = (el: Element) => el.tagName.toLowerCase();
+
+function kindOf(el: Element): ElementKind {
+  const classes = classesOf(el);
+  if (classes.includes("cluster")) return "cluster";
+  if (classes.includes("node")) return "node";
+  if (classes.includes("edgeLabel")) return "edgeLabel";
+  if (classes.includes("edgePath") || el.hasAttribute("data-edge") || classes.some((name) => name.endsWith("-link"))) return "edge";
+  return "other";
+}
+
+// クラスのない g は、子に g があれば入れ物、なければ（rect + text など）ひとかたまりの要素
+function isContainer(el: Element): boolean {
+  if (tagOf(el) !== "g") return false;
+  const classes = classesOf(el);
+  if (classes.some((name) => CONTAINER_CLASSES.includes(name))) return true;
+  return classes.length === 0 && Array.from(el.children).some((child) => tagOf(child) === "g");
+}
+
+function collectItems(parent: Element, items: SvgItem[]) {
+  Array.from(parent.children).forEach((child) => {
+    if (IGNORED_TAGS.includes(tagOf(child))) return;
+    if (isContainer(child)) {
+      collectItems(child, items);
+    } else if (tagOf(child) !== "g" || child.children.length > 0) {
+      items.push({ el: child, kind: kindOf(child) });
+    }
+  });
+}
+
+const pathOf = (el: Element) => (tagOf(el) === "path" ? el : el.querySelector("path"));
+
+// 線の始点と終点（d の最初と最後の座標）
+function endpointsOf(el: Element): [Point, Point] | null {
+  const path = pathOf(el);
+  const numbers = (path?.getAttribute("d") ?? "").match(/-?[\d.]+(?:e-?\d+)?/g)?.map(Number);
+  if (!path || !numbers || numbers.length < 4) return null;
+  const offset = offsetOf(path);
+  return [
+    { x: numbers[0] + offset.x, y: numbers[1] + offset.y },
+    { x: numbers[numbers.length - 2] + offset.x, y: numbers[numbers.length - 1] + offset.y },
+  ];
+}
+
+// 線とラベルを結びつけるID（Mermaid 11 は data-id に L_A_B_0 のようなIDを持つ）
+const edgeIdOf = (el: Element) => {
+  const path = pathOf(el);
+  return path?.getAttribute("data-id") ?? path?.getAttribute("id") ?? null;
+};
+const labelIdOf = (el: Element) => el.getAttribute("data-id") ?? el.querySelector("[data-id]")?.getAttribute("data-id") ?? null;
+
+// グラフとして読めるときは ノード → 両端がそろった線 → そのラベル の順、読めなければ文書順
+function revealOrder(items: SvgItem[]): SvgItem[] {
+  const nodes = items.filter((item) => item.kind === "node" && TRANSLATE.test(item.el.getAttribute("transform") ?? ""));
+  const edges = items.filter((item) => item.kind === "edge");
+  if (nodes.length === 0 || edges.length === 0) return items;
+
+  // 線の端に一番近いノードを、その端につながるノードとみなす
+  const centers = nodes.map((node) => offsetOf(node.el));
+  const distance = (i: number, point: Point) => Math.hypot(centers[i].x - point.x, centers[i].y - point.y);
+  const nearest = (point: Point) => centers.reduce((best, _, i) => (distance(i, point) < distance(best, point) ? i : best), 0);
+  const ends = new Map<SvgItem, [number, number]>();
+  edges.forEach((edge) => {
+    const points = endpointsOf(edge.el);
+    if (points) ends.set(edge, [nearest(points[0]), nearest(points[1])]);
+  });
+  const labels = new Map<string, SvgItem>();
+  items.forEach((item) => {
+    const id = item.kind === "edgeLabel" ? labelIdOf(item.el) : null;
+    if (id) labels.set(id, item);
+  });
+
+  const ordered: SvgItem[] = [];
+  const placed = new Set<SvgItem>();
+  const place = (item: SvgItem) => {
+    if (placed.has(item)) return;
+    placed.add(item);
+    ordered.push(item);
+  };
+
+  // タイトルなど → サブグラフの枠 → ノードごとに、つながった線とラベル
+  items.filter((item) => item.kind === "other").forEach(place);
+  items.filter((item) => item.kind === "cluster").forEach(place);
+  const shown = new Set<number>();
+  nodes.forEach((node, index) => {
+    place(node);
+    shown.add(index);
+    edges.forEach((edge) => {
+      const end = ends.get(edge);
+      if (placed.has(edge) || !end || !shown.has(end[0]) || !shown.has(end[1])) return;
+      place(edge);
+      const id = edgeIdOf(edge.el);
+      const label = id ? labels.get(id) : undefined;
+      if (label) place(label);
+    });
+  });
+  // 両端が分からなかった線などは最後に文書順で
+  items.forEach(place);
+  return ordered;
+}
+
+// 実線だけを描き進める（点線・破線は pathLength を変えると模様が崩れる）
+function isSolidLine(path: Element): boolean {
+  const classes = classesOf(path).join(" ");
+  const style = path.getAttribute("style") ?? "";
+  return !/dotted|dashed|thick-invisible/.test(classes) && !path.hasAttribute("stroke-dasharray") && !style.includes("dasharray");
+}
+
+export function annotateSvgElements(svgEl: SVGSVGElement): SvgElements {
+  const items: SvgItem[] = [];
+  collectItems(svgEl, items);
+
+  const ordered = revealOrder(items);
+  ordered.forEach((item, i) => {
+    item.el.setAttribute("data-reveal", String(i));
+    const path = item.kind === "edge" ? pathOf(item.el) : null;
+    if (path && isSolidLine(path)) {
+      path.setAttribute("pathLength", "1");
+      path.setAttribute("data-draw", "");
+    }
+  });
+
+  return { svg: new XMLSerializer().serializeToString(svgEl), id: svgEl.getAttribute("id") ?? "", count: ordered.length };
+}
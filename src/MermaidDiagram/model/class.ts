@@ -0,0 +1,212 @@
+import { ClassMember, ClassModel, ClassNode, ClassRelation, ClassRelationEnd, RevealStep } from "./types";
+import { contentLines } from "./text";
+import { layoutLayers, textWidth } from "./layered";
+
+// クラス・メンバー以外のステートメント
+const NON_CLASS_STATEMENT = /^(classDiagram|direction|note|classDef|style|cssClass|callback|click|link|accTitle|accDescr|title)\b/;
+
+// Name~T~ / Name["ラベル"] / Name:::style に続く { ... }
+const CLASS_DECLARATION = /^class\s+([\w-]+)(?:~([^~]+)~)?(?:\["([^"]*)"\])?(?::::[\w-]+)?\s*(\{)?\s*(\})?$/;
+
+// A "1" <|-- "*" B : label / A <|--|> B / A *--* B / A ()-- B
+// 端の記号: <| * o < () （左） / |> * o > () （右）、線: -- または ..
+const RELATION =
+  /^([\w-]+)(?:~[^~]+~)?\s*(?:"([^"]*)"\s*)?(<\||\*|o|<|\(\))?(--|\.\.)(\|>|>|\*|\(\)|o(?=[\s"]))?\s*(?:"([^"]*)"\s*)?([\w-]+)(?:~[^~]+~)?\s*(?::\s*(.+))?$/;
+
+// Name : +member
+const MEMBER_LINE = /^([\w-]+)\s*:\s*(.+)$/;
+
+const ANNOTATION = /^<<\s*(.+?)\s*>>\s*([\w-]+)?$/;
+
+const END_SYMBOLS: Record<string, ClassRelationEnd> = {
+  "<|": "triangle",
+  "|>": "triangle",
+  "*": "filledDiamond",
+  o: "hollowDiamond",
+  "<": "arrow",
+  ">": "arrow",
+  "()": "lollipop",
+};
+
+// レイアウト用の寸法（SVG座標系、フォントサイズ14px前提）
+const FONT_SIZE = 14;
+const LINE_HEIGHT = 22;
+const PADDING_X = 16;
+const HEADER_HEIGHT = 40;
+const ANNOTATION_HEIGHT = 18;
+const SECTION_PADDING = 8;
+const MIN_WIDTH = 140;
+const H_GAP = 80;
+const V_GAP = 100;
+const MARGIN = 40;
+
+// Mermaid のジェネリクス記法 List~int~ → List<int>
+const genericText = (text: string) => text.replace(/~([^~]+)~/g, "<$1>");
+
+interface ParsedClass {
+  id: string;
+  label: string;
+  annotation?: string;
+  attributes: string[];
+  methods: string[];
+}
+
+// 親（継承元・全体側・関連元）→ 子 の向きに揃える
+// 三角・菱形の付いた端が親、矢印の付いた端が子
+function parentAndChild(relation: ClassRelation): [string, string] {
+  const rank = (end: ClassRelationEnd) => (end === "arrow" ? 0 : end === "none" ? 1 : 2);
+  return rank(relation.toEnd) > rank(relation.fromEnd) ? [relation.to, relation.from] : [relation.from, relation.to];
+}
+
+function measureClass(parsed: ParsedClass): { width: number; headerHeight: number; attributesHeight: number; height: number } {
+  // クラス名は太字16px
+  const widths = [textWidth(parsed.label, 18), ...[...parsed.attributes, ...parsed.methods].map((text) => textWidth(text, FONT_SIZE))];
+  if (parsed.annotation) widths.push(textWidth(`«${parsed.annotation}»`, 12));
+  const width = Math.max(MIN_WIDTH, Math.ceil(Math.max(...widths) + PADDING_X * 2));
+
+  const headerHeight = HEADER_HEIGHT + (parsed.annotation ? ANNOTATION_HEIGHT : 0);
+  const sectionHeight = (rows: number) => rows * LINE_HEIGHT + SECTION_PADDING * 2;
+  const attributesHeight = sectionHeight(parsed.attributes.length);
+  return { width, headerHeight, attributesHeight, height: headerHeight + attributesHeight + sectionHeight(parsed.methods.length) };
+}
+
+export function parseClass(diagram: string): ClassModel {
+  const classMap = new Map<string, ParsedClass>();
+  const relations: ClassRelation[] = [];
+
+  const ensureClass = (id: string): ParsedClass => {
+    let parsed = classMap.get(id);
+    if (!parsed) {
+      parsed = { id, label: id, attributes: [], methods: [] };
+      classMap.set(id, parsed);
+    }
+    return parsed;
+  };
+
+  const addMember = (parsed: ParsedClass, text: string) => {
+    const member = genericText(text.trim());
+    if (!member) return;
+    (member.includes("(") ? parsed.methods : parsed.attributes).push(member);
+  };
+
+  // { } の入れ子（namespace とクラス本体）
+  const blocks: (ParsedClass | null)[] = [];
+
+  contentLines(diagram).forEach((line) => {
+    const current = blocks[blocks.length - 1];
+
+    if (line === "}") {
+      blocks.pop();
+      return;
+    }
+
+    // クラス本体の中
+    if (current) {
+      const annotation = line.match(ANNOTATION);
+      if (annotation && !annotation[2]) {
+        current.annotation = annotation[1];
+      } else {
+        addMember(current, line);
+      }
+      return;
+    }
+
+    if (NON_CLASS_STATEMENT.test(line)) return;
+
+    const namespace = line.match(/^namespace\s+\S+\s*\{$/);
+    if (namespace) {
+      blocks.push(null);
+      return;
+    }
+
+    const declaration = line.match(CLASS_DECLARATION);
+    if (declaration) {
+      const [, id, generic, label, open, close] = declaration;
+      const parsed = ensureClass(id);
+      parsed.label = label ?? (generic ? `${id}<${genericText(generic)}>` : id);
+      if (open && !close) blocks.push(parsed);
+      return;
+    }
+
+    const annotation = line.match(ANNOTATION);
+    if (annotation && annotation[2]) {
+      ensureClass(annotation[2]).annotation = annotation[1];
+      return;
+    }
+
+    const relation = line.match(RELATION);
+    if (relation) {
+      const [, from, fromCardinality, fromSymbol, lineSymbol, toSymbol, toCardinality, to, label] = relation;
+      ensureClass(from);
+      ensureClass(to);
+      relations.push({
+        from,
+        to,
+        fromEnd: fromSymbol ? END_SYMBOLS[fromSymbol] : "none",
+        toEnd: toSymbol ? END_SYMBOLS[toSymbol] : "none",
+        line: lineSymbol === ".." ? "dashed" : "solid",
+        fromCardinality,
+        toCardinality,
+        label: label?.trim(),
+      });
+      return;
+    }
+
+    const memberLine = line.match(MEMBER_LINE);
+    if (memberLine) {
+      addMember(ensureClass(memberLine[1]), memberLine[2]);
+    }
+  });
+
+  const sizes = new Map([...classMap.values()].map((parsed) => [parsed.id, measureClass(parsed)]));
+  const layout = layoutLayers([...classMap.keys()], relations.map(parentAndChild), (id) => sizes.get(id)!, {
+    hGap: H_GAP,
+    vGap: V_GAP,
+    margin: MARGIN,
+  });
+
+  const classes: ClassNode[] = [];
+  const members: ClassMember[] = [];
+  layout.order.forEach((id) => {
+    const parsed = classMap.get(id)!;
+    const size = sizes.get(id)!;
+    const classIndex = classes.length;
+    classes.push({ id, label: parsed.label, annotation: parsed.annotation, ...layout.positions.get(id)!, ...size });
+
+    parsed.attributes.forEach((text, i) => {
+      const offsetY = size.headerHeight + SECTION_PADDING + LINE_HEIGHT * (i + 0.5);
+      members.push({ classIndex, section: "attribute", text, offsetY });
+    });
+    parsed.methods.forEach((text, i) => {
+      const offsetY = size.headerHeight + size.attributesHeight + SECTION_PADDING + LINE_HEIGHT * (i + 0.5);
+      members.push({ classIndex, section: "method", text, offsetY });
+    });
+  });
+
+  // クラス → そのメンバーを1つずつ → 両端が出揃った関連
+  const steps: RevealStep<"class" | "member" | "relation">[] = [];
+  const visible = new Set<string>();
+  const shownRelations = new Set<number>();
+  classes.forEach((node, classIndex) => {
+    steps.push({ kind: "class", index: classIndex });
+    members.forEach((member, memberIndex) => {
+      if (member.classIndex === classIndex) steps.push({ kind: "member", index: memberIndex });
+    });
+    visible.add(node.id);
+    relations.forEach((relation, relationIndex) => {
+      if (shownRelations.has(relationIndex) || !visible.has(relation.from) || !visible.has(relation.to)) return;
+      shownRelations.add(relationIndex);
+      steps.push({ kind: "relation", index: relationIndex });
+    });
+  });
+
+  return {
+    type: "class",
+    classes,
+    members,
+    relations,
+    width: layout.width,
+    height: layout.height,
+    steps,
+  };
+}
@@ -0,0 +1,216 @@
+import { ErAttribute, ErCardinality, ErEntity, ErModel, ErRelationship, RevealStep } from "./types";
+import { contentLines } from "./text";
+import { layoutLayers, textWidth } from "./layered";
+
+// エンティティ・リレーションシップ以外のステートメント
+const NON_ER_STATEMENT = /^(erDiagram|direction|classDef|style|class|accTitle|accDescr|title)\b/;
+
+const ENTITY_NAME = String.raw`("[^"]+"|[\w-]+)`;
+
+// CUSTOMER ||--o{ ORDER : places
+const SYMBOL_RELATIONSHIP = new RegExp(
+  String.raw`^${ENTITY_NAME}\s*(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s*${ENTITY_NAME}\s*(?::\s*(.+))?$`,
+);
+
+// Mermaid の別名表記: CUSTOMER only one to zero or more ORDER : places
+const CARDINALITY_WORDS: Record<string, ErCardinality> = {
+  "only one": "exactlyOne",
+  "1": "exactlyOne",
+  "zero or one": "zeroOrOne",
+  "one or zero": "zeroOrOne",
+  "one or more": "oneOrMore",
+  "one or many": "oneOrMore",
+  "many(1)": "oneOrMore",
+  "1+": "oneOrMore",
+  "zero or more": "zeroOrMore",
+  "zero or many": "zeroOrMore",
+  "many(0)": "zeroOrMore",
+  "0+": "zeroOrMore",
+};
+const WORDS = Object.keys(CARDINALITY_WORDS)
+  .sort((a, b) => b.length - a.length)
+  .map((word) => word.replace(/[()+]/g, "\\$&"))
+  .join("|");
+const WORD_RELATIONSHIP = new RegExp(
+  String.raw`^${ENTITY_NAME}\s+(${WORDS})\s+(to|optionally to)\s+(${WORDS})\s+${ENTITY_NAME}\s*(?::\s*(.+))?$`,
+);
+
+const LEFT_SYMBOLS: Record<string, ErCardinality> = {
+  "|o": "zeroOrOne",
+  "||": "exactlyOne",
+  "}o": "zeroOrMore",
+  "}|": "oneOrMore",
+};
+const RIGHT_SYMBOLS: Record<string, ErCardinality> = {
+  "o|": "zeroOrOne",
+  "||": "exactlyOne",
+  "o{": "zeroOrMore",
+  "|{": "oneOrMore",
+};
+
+// NAME / NAME["別名"] / NAME[別名] に続く { ... }
+const ENTITY_DECLARATION = new RegExp(String.raw`^${ENTITY_NAME}(?:\[\s*"?([^"\]]*)"?\s*\])?\s*(\{)?\s*(\})?$`);
+
+// type name PK, FK "comment"
+const ATTRIBUTE = /^(\S+)\s+(\S+)(?:\s+((?:PK|FK|UK)(?:\s*,\s*(?:PK|FK|UK))*))?(?:\s+"([^"]*)")?$/;
+
+// レイアウト用の寸法（SVG座標系）
+const FONT_SIZE = 13;
+const HEADER_HEIGHT = 36;
+const ROW_HEIGHT = 26;
+const PADDING_X = 12;
+const COLUMN_GAP = 16;
+const MIN_WIDTH = 160;
+
+const unquote = (name: string) => name.replace(/^"(.*)"$/, "$1");
+
+const isSingle = (cardinality: ErCardinality) => cardinality === "zeroOrOne" || cardinality === "exactlyOne";
+
+// 参照される側（親） → 参照する側（子）
+// 「1」側が親。1対1 は必須側、それ以外は左側を親とみなす
+function parentAndChild(relationship: ErRelationship): [string, string] {
+  const { from, to, fromCardinality, toCardinality } = relationship;
+  if (isSingle(toCardinality) && !isSingle(fromCardinality)) return [to, from];
+  if (toCardinality === "exactlyOne" && fromCardinality === "zeroOrOne") return [to, from];
+  return [from, to];
+}
+
+interface ParsedEntity {
+  id: string;
+  label: string;
+  attributes: ErAttribute[];
+}
+
+function measureEntity(parsed: ParsedEntity): Pick<ErEntity, "width" | "height" | "columns"> {
+  const columnWidth = (texts: string[]) => Math.max(0, ...texts.map((text) => textWidth(text, FONT_SIZE)));
+  const typeWidth = columnWidth(parsed.attributes.map((a) => a.type));
+  const nameWidth = columnWidth(parsed.attributes.map((a) => a.name));
+  const keysWidth = columnWidth(parsed.attributes.map((a) => a.keys.join(",")));
+  const commentWidth = columnWidth(parsed.attributes.map((a) => a.comment ?? ""));
+
+  const columns = {
+    type: PADDING_X,
+    name: PADDING_X + typeWidth + COLUMN_GAP,
+    keys: PADDING_X + typeWidth + nameWidth + COLUMN_GAP * 2,
+    comment: PADDING_X + typeWidth + nameWidth + keysWidth + COLUMN_GAP * (keysWidth > 0 ? 3 : 2),
+  };
+  const rowsWidth = columns.comment + commentWidth + PADDING_X;
+  const headerWidth = textWidth(parsed.label, FONT_SIZE + 3) + PADDING_X * 2;
+
+  return {
+    width: Math.ceil(Math.max(MIN_WIDTH, rowsWidth, headerWidth)),
+    height: HEADER_HEIGHT + parsed.attributes.length * ROW_HEIGHT,
+    columns,
+  };
+}
+
+export function parseEr(diagram: string): ErModel {
+  const entityMap = new Map<string, ParsedEntity>();
+  const relationships: ErRelationship[] = [];
+
+  const ensureEntity = (name: string): ParsedEntity => {
+    const id = unquote(name);
+    let parsed = entityMap.get(id);
+    if (!parsed) {
+      parsed = { id, label: id, attributes: [] };
+      entityMap.set(id, parsed);
+    }
+    return parsed;
+  };
+
+  let current: ParsedEntity | null = null;
+
+  contentLines(diagram).forEach((line) => {
+    // エンティティの属性ブロックの中
+    if (current) {
+      if (line === "}") {
+        current = null;
+        return;
+      }
+      const attribute = line.match(ATTRIBUTE);
+      if (attribute) {
+        const [, type, name, keys, comment] = attribute;
+        current.attributes.push({
+          type: type.replace(/~([^~]+)~/g, "<$1>"),
+          name,
+          keys: keys ? keys.split(",").map((key) => key.trim()) : [],
+          comment,
+        });
+      }
+      return;
+    }
+
+    if (NON_ER_STATEMENT.test(line)) return;
+
+    const symbol = line.match(SYMBOL_RELATIONSHIP);
+    if (symbol) {
+      const [, from, left, lineSymbol, right, to, label] = symbol;
+      relationships.push({
+        from: ensureEntity(from).id,
+        to: ensureEntity(to).id,
+        fromCardinality: LEFT_SYMBOLS[left],
+        toCardinality: RIGHT_SYMBOLS[right],
+        identifying: lineSymbol === "--",
+        label: label ? unquote(label.trim()) : undefined,
+      });
+      return;
+    }
+
+    const words = line.match(WORD_RELATIONSHIP);
+    if (words) {
+      const [, from, left, connector, right, to, label] = words;
+      relationships.push({
+        from: ensureEntity(from).id,
+        to: ensureEntity(to).id,
+        fromCardinality: CARDINALITY_WORDS[left],
+        toCardinality: CARDINALITY_WORDS[right],
+        identifying: connector === "to",
+        label: label ? unquote(label.trim()) : undefined,
+      });
+      return;
+    }
+
+    const declaration = line.match(ENTITY_DECLARATION);
+    if (declaration) {
+      const [, name, alias, open, close] = declaration;
+      const parsed = ensureEntity(name);
+      if (alias) parsed.label = alias;
+      if (open && !close) current = parsed;
+    }
+  });
+
+  // 外部キーの参照先を上の行に置き、その順で表示する
+  const sizes = new Map([...entityMap.values()].map((parsed) => [parsed.id, measureEntity(parsed)]));
+  const layout = layoutLayers([...entityMap.keys()], relationships.map(parentAndChild), (id) => sizes.get(id)!, {
+    hGap: 100,
+    vGap: 110,
+    margin: 40,
+  });
+
+  const entities: ErEntity[] = layout.order.map((id) => {
+    const parsed = entityMap.get(id)!;
+    return {
+      ...parsed,
+      ...layout.positions.get(id)!,
+      ...sizes.get(id)!,
+      headerHeight: HEADER_HEIGHT,
+      rowHeight: ROW_HEIGHT,
+    };
+  });
+
+  // エンティティを出し、両端が出揃ったリレーションシップをその直後に出す
+  const steps: RevealStep<"entity" | "relationship">[] = [];
+  const visible = new Set<string>();
+  const shown = new Set<number>();
+  entities.forEach((entity, entityIndex) => {
+    steps.push({ kind: "entity", index: entityIndex });
+    visible.add(entity.id);
+    relationships.forEach((relationship, relationshipIndex) => {
+      if (shown.has(relationshipIndex) || !visible.has(relationship.from) || !visible.has(relationship.to)) return;
+      shown.add(relationshipIndex);
+      steps.push({ kind: "relationship", index: relationshipIndex });
+    });
+  });
+
+  return { type: "er", entities, relationships, width: layout.width, height: layout.height, steps };
+}
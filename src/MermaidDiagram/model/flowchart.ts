@@ -0,0 +1,565 @@
+import { EdgeEnd, EdgeStroke, FlowDirection, FlowEdge, FlowNode, FlowStyle, FlowSubgraph, FlowchartModel, NodeShape, RevealStep } from "./types";
+import { contentLines } from "./text";
+
+// ノード定義以外のステートメント
+const NON_NODE_STATEMENT = /^(flowchart|graph|subgraph|end|classDef|class|style|linkStyle|click|direction)\b/;
+
+// 線の記号: 端（< o x）+ 線（-- -.- == ~~~ は長さ自由）+ 端（> o x）。--- と === は端なし
+const LINK = /^([<ox])?(?:(-{2,})([>ox])|(-{3,})|(-\.+-)([>ox])?|(={2,})([>ox])|(={3,})|(~{3,}))/;
+// 線の途中に書くラベル: A-- text -->B / A-. text .->B / A== text ==>B
+const INLINE_LINK = /^([<ox])?(--|-\.|==)\s+(.+?)\s*(?:(-{2,})([>ox])|(-{3,})|(\.+-)([>ox])?|(={2,})([>ox])|(={3,}))/;
+// 線の後ろのラベル: -->|text| / -->|"a | b"|
+const PIPE_LABEL = /^\s*\|(\s*"[^"]*"\s*|[^|]*)\|/;
+// 線のID: A e1@--> B
+const EDGE_ID = /^([\w-]+)@(?=[<ox]?[-=~])/;
+
+// ノードIDに使えない文字（-- と -. の手前でも止める）
+const ID_CHAR = /[^\s&;|"'`[\](){}<>@:=~]/;
+
+// flowchart LR / graph TD / direction RL の向き
+const DIRECTIONS: Record<string, FlowDirection> = { TB: "TB", TD: "TB", V: "TB", BT: "BT", "^": "BT", LR: "LR", ">": "LR", RL: "RL", "<": "RL" };
+const parseDirection = (text: string | undefined): FlowDirection | undefined => (text ? DIRECTIONS[text.toUpperCase()] : undefined);
+
+const END_MARKS: Record<string, EdgeEnd> = { ">": "arrow", "<": "arrow", o: "circle", x: "cross" };
+
+interface LinkToken {
+  id?: string;
+  label?: string;
+  stroke: EdgeStroke;
+  start: EdgeEnd;
+  end: EdgeEnd;
+}
+
+const strokeOf = (line: string): EdgeStroke => {
+  if (line.startsWith("~")) return "invisible";
+  if (line.startsWith("=")) return "thick";
+  return line.includes(".") ? "dotted" : "normal";
+};
+
+const unquote = (text: string) => text.trim().replace(/^"([\s\S]*)"$/, "$1");
+
+// 括弧の記法（長い記号を先に試す）
+const BRACKET_SHAPES: { open: string; close: string; shape: NodeShape }[] = [
+  { open: "(((", close: ")))", shape: "doubleCircle" },
+  { open: "((", close: "))", shape: "circle" },
+  { open: "([", close: "])", shape: "stadium" },
+  { open: "[[", close: "]]", shape: "subroutine" },
+  { open: "[(", close: ")]", shape: "cylinder" },
+  { open: "[/", close: "/]", shape: "parallelogram" },
+  { open: "[\\", close: "\\]", shape: "parallelogramAlt" },
+  { open: "[/", close: "\\]", shape: "trapezoid" },
+  { open: "[\\", close: "/]", shape: "trapezoidAlt" },
+  { open: "{{", close: "}}", shape: "hexagon" },
+  { open: ">", close: "]", shape: "asymmetric" },
+  { open: "[", close: "]", shape: "rect" },
+  { open: "{", close: "}", shape: "diamond" },
+  { open: "(", close: ")", shape: "rounded" },
+];
+
+// @{ shape: ... } の名前と別名（描けない形は rect にする）
+const SHAPE_NAMES: Record<string, NodeShape> = {
+  rect: "rect",
+  rectangle: "rect",
+  proc: "rect",
+  process: "rect",
+  rounded: "rounded",
+  event: "rounded",
+  stadium: "stadium",
+  pill: "stadium",
+  terminal: "stadium",
+  "fr-rect": "subroutine",
+  subproc: "subroutine",
+  subprocess: "subroutine",
+  subroutine: "subroutine",
+  "framed-rectangle": "subroutine",
+  cyl: "cylinder",
+  cylinder: "cylinder",
+  database: "cylinder",
+  db: "cylinder",
+  "h-cyl": "horizontalCylinder",
+  das: "horizontalCylinder",
+  "horizontal-cylinder": "horizontalCylinder",
+  circle: "circle",
+  circ: "circle",
+  "dbl-circ": "doubleCircle",
+  "double-circle": "doubleCircle",
+  "sm-circ": "smallCircle",
+  start: "smallCircle",
+  "small-circle": "smallCircle",
+  "f-circ": "filledCircle",
+  junction: "filledCircle",
+  "filled-circle": "filledCircle",
+  "fr-circ": "framedCircle",
+  stop: "framedCircle",
+  "framed-circle": "framedCircle",
+  odd: "asymmetric",
+  diam: "diamond",
+  diamond: "diamond",
+  decision: "diamond",
+  question: "diamond",
+  hex: "hexagon",
+  hexagon: "hexagon",
+  prepare: "hexagon",
+  "lean-r": "parallelogram",
+  "lean-right": "parallelogram",
+  "in-out": "parallelogram",
+  "lean-l": "parallelogramAlt",
+  "lean-left": "parallelogramAlt",
+  "out-in": "parallelogramAlt",
+  "trap-b": "trapezoid",
+  trapezoid: "trapezoid",
+  "trapezoid-bottom": "trapezoid",
+  priority: "trapezoid",
+  "trap-t": "trapezoidAlt",
+  "trapezoid-top": "trapezoidAlt",
+  "inv-trapezoid": "trapezoidAlt",
+  manual: "trapezoidAlt",
+  tri: "triangle",
+  triangle: "triangle",
+  extract: "triangle",
+  "flip-tri": "flippedTriangle",
+  "flipped-triangle": "flippedTriangle",
+  "manual-file": "flippedTriangle",
+  doc: "document",
+  document: "document",
+  "notch-rect": "card",
+  card: "card",
+  "notched-rectangle": "card",
+  text: "text",
+};
+
+// A@{ shape: diam, label: "ラベル" } の中身（値は "..." でくくってもよい）
+function parseShapeData(body: string): { label?: string; shape?: NodeShape } {
+  const data: { label?: string; shape?: NodeShape } = {};
+  const pattern = /(\w+)\s*:\s*("(?:[^"\\]|\\.)*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    const value = match[2].trim().replace(/^"([\s\S]*)"$/, "$1");
+    if (match[1] === "label") data.label = value;
+    if (match[1] === "shape") data.shape = SHAPE_NAMES[value.toLowerCase()] ?? "rect";
+  }
+  return data;
+}
+
+// pos から始まる括弧の形を読む（閉じ記号が一番手前に見つかる候補を選ぶ）
+function readBracket(line: string, pos: number): { shape: NodeShape; label: string; end: number } | null {
+  let best: { shape: NodeShape; labelStart: number; closeAt: number; close: string } | null = null;
+  for (const { open, close, shape } of BRACKET_SHAPES) {
+    if (!line.startsWith(open, pos)) continue;
+    const labelStart = pos + open.length;
+    // "..." でくくったラベルの中の記号は閉じ記号とみなさない
+    const quoted = line.slice(labelStart).match(/^\s*"[^"]*"/);
+    const closeAt = line.indexOf(close, labelStart + (quoted ? quoted[0].length : 0));
+    if (closeAt < 0 || (best && closeAt >= best.closeAt)) continue;
+    best = { shape, labelStart, closeAt, close };
+  }
+  if (!best) return null;
+  return { shape: best.shape, label: unquote(line.slice(best.labelStart, best.closeAt)), end: best.closeAt + best.close.length };
+}
+
+interface NodeToken {
+  id: string;
+  label?: string;
+  shape?: NodeShape;
+  // A:::warning
+  className?: string;
+  end: number;
+}
+
+// ノードを読む: A, A[Label], B{Label}, C(Label), D((Label)), E@{ shape: cyl }, F:::warning など
+function readNode(line: string, pos: number): NodeToken | null {
+  let end = pos;
+  while (end < line.length && ID_CHAR.test(line[end]) && !line.startsWith("--", end) && !line.startsWith("-.", end)) end++;
+  if (end === pos) return null;
+  const id = line.slice(pos, end);
+
+  let node: NodeToken = { id, end };
+  if (line.startsWith("@{", end)) {
+    const close = line.slice(end).search(/\}(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    node = close < 0 ? { id, end: line.length } : { id, ...parseShapeData(line.slice(end + 2, end + close)), end: end + close + 1 };
+  } else {
+    const bracket = readBracket(line, end);
+    if (bracket) node = { id, label: bracket.label, shape: bracket.shape, end: bracket.end };
+  }
+  const className = line.slice(node.end).match(/^:::([\w-]+)/);
+  return className ? { ...node, className: className[1], end: node.end + className[0].length } : node;
+}
+
+// 線を読む（ID・ラベル付きも）
+function readLink(line: string, pos: number): { link: LinkToken; end: number } | null {
+  let rest = line.slice(pos);
+  const leading = rest.length - rest.trimStart().length;
+  rest = rest.trimStart();
+  let consumed = leading;
+
+  const idMatch = rest.match(EDGE_ID);
+  if (idMatch) {
+    rest = rest.slice(idMatch[0].length);
+    consumed += idMatch[0].length;
+  }
+
+  let link: LinkToken;
+  const plain = rest.match(LINK);
+  const inline = plain ? null : rest.match(INLINE_LINK);
+  if (plain) {
+    const [, startMark, normal, normalEnd, open, dotted, dottedEnd, thick, thickEnd, thickOpen, invisible] = plain;
+    const endMark = normalEnd ?? dottedEnd ?? thickEnd;
+    link = {
+      stroke: strokeOf(normal ?? open ?? dotted ?? thick ?? thickOpen ?? invisible),
+      start: startMark ? END_MARKS[startMark] : "none",
+      end: endMark ? END_MARKS[endMark] : "none",
+    };
+    rest = rest.slice(plain[0].length);
+    consumed += plain[0].length;
+  } else if (inline) {
+    const [, startMark, opener, text, , normalEnd, , , dottedEnd, , thickEnd] = inline;
+    const endMark = normalEnd ?? dottedEnd ?? thickEnd;
+    link = {
+      label: unquote(text),
+      stroke: strokeOf(opener),
+      start: startMark ? END_MARKS[startMark] : "none",
+      end: endMark ? END_MARKS[endMark] : "none",
+    };
+    rest = rest.slice(inline[0].length);
+    consumed += inline[0].length;
+  } else {
+    return null;
+  }
+
+  const pipe = rest.match(PIPE_LABEL);
+  if (pipe) {
+    link.label = unquote(pipe[1]) || undefined;
+    consumed += pipe[0].length;
+  }
+  if (idMatch) link.id = idMatch[1];
+  return { link, end: pos + consumed };
+}
+
+// 循環を閉じる線（戻り線）を探す
+// 入ってくる線のないノードから定義順に深さ優先でたどり、たどっている途中のノードへ戻る線を戻り線とする
+function findLoopbacks(nodes: FlowNode[], edges: FlowEdge[]): Set<FlowEdge> {
+  const outgoing = new Map<string, FlowEdge[]>(nodes.map((node) => [node.id, []]));
+  const hasIncoming = new Set<string>();
+  // サブグラフにつながる線は順序に使わない
+  edges.forEach((edge) => {
+    if (!outgoing.has(edge.from) || !outgoing.has(edge.to)) return;
+    outgoing.get(edge.from)!.push(edge);
+    if (edge.from !== edge.to) hasIncoming.add(edge.to);
+  });
+
+  const loopbacks = new Set<FlowEdge>();
+  const done = new Set<string>();
+  const onPath = new Set<string>();
+  const visit = (id: string) => {
+    onPath.add(id);
+    outgoing.get(id)!.forEach((edge) => {
+      if (onPath.has(edge.to)) loopbacks.add(edge);
+      else if (!done.has(edge.to)) visit(edge.to);
+    });
+    onPath.delete(id);
+    done.add(id);
+  };
+  nodes.filter((node) => !hasIncoming.has(node.id)).forEach((node) => visit(node.id));
+  // 全体が循環しているときは定義順で最初のノードから
+  nodes.forEach((node) => {
+    if (!done.has(node.id)) visit(node.id);
+  });
+  return loopbacks;
+}
+
+// 戻り線を除いた最長経路で段（ランク）を決め、段の順に並べる（同じ段は定義順）
+// Mermaid（dagre）も同じように段を流れの向きに並べるので、TB / BT / LR / RL のどれでも流れに沿って現れる
+function sortByRank(nodes: FlowNode[], edges: FlowEdge[], loopbacks: Set<FlowEdge>): FlowNode[] {
+  const order = new Map<string, number>();
+  nodes.forEach((node, i) => order.set(node.id, i));
+
+  const inDegree = new Map<string, number>(nodes.map((node) => [node.id, 0]));
+  const adjacency = new Map<string, string[]>(nodes.map((node) => [node.id, []]));
+  edges.forEach((edge) => {
+    if (loopbacks.has(edge) || !inDegree.has(edge.to) || !adjacency.has(edge.from)) return;
+    inDegree.set(edge.to, inDegree.get(edge.to)! + 1);
+    adjacency.get(edge.from)!.push(edge.to);
+  });
+
+  // Kahn's algorithm で段を伝える（戻り線を除いたので必ず全ノードに届く）
+  const rank = new Map<string, number>();
+  const queue = nodes.filter((node) => inDegree.get(node.id) === 0).map((node) => node.id);
+  queue.forEach((id) => rank.set(id, 0));
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    adjacency.get(current)!.forEach((neighbor) => {
+      rank.set(neighbor, Math.max(rank.get(neighbor) ?? 0, rank.get(current)! + 1));
+      inDegree.set(neighbor, inDegree.get(neighbor)! - 1);
+      if (inDegree.get(neighbor) === 0) queue.push(neighbor);
+    });
+  }
+
+  return [...nodes].sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0) || order.get(a.id)! - order.get(b.id)!);
+}
+
+// エッジをノード順序に基づいてソート
+function sortEdgesByNodeOrder(edges: FlowEdge[], nodes: FlowNode[]): FlowEdge[] {
+  const nodeIndex = new Map<string, number>();
+  nodes.forEach((node, i) => nodeIndex.set(node.id, i));
+
+  return [...edges].sort((a, b) => {
+    const aFromIdx = nodeIndex.get(a.from) || 0;
+    const bFromIdx = nodeIndex.get(b.from) || 0;
+    if (aFromIdx !== bFromIdx) return aFromIdx - bFromIdx;
+    return (nodeIndex.get(a.to) || 0) - (nodeIndex.get(b.to) || 0);
+  });
+}
+
+// ノードを出し、両端が出揃ったエッジをその直後に出す（~~~ の見えない線は出さない）
+// サブグラフは最初のメンバーの直前に（外側から）開く
+function buildSteps(nodes: FlowNode[], edges: FlowEdge[], subgraphs: FlowSubgraph[]): RevealStep<"subgraph" | "node" | "edge">[] {
+  const steps: RevealStep<"subgraph" | "node" | "edge">[] = [];
+  const visible = new Set<string>();
+  const shownEdges = new Set<number>();
+  const subgraphIndex = new Map(subgraphs.map((subgraph, i) => [subgraph.id, i]));
+
+  const revealEdges = () => {
+    edges.forEach((edge, edgeIndex) => {
+      if (edge.stroke === "invisible" || shownEdges.has(edgeIndex) || !visible.has(edge.from) || !visible.has(edge.to)) return;
+      shownEdges.add(edgeIndex);
+      steps.push({ kind: "edge", index: edgeIndex });
+    });
+  };
+  const openSubgraph = (id: string | undefined) => {
+    const index = id === undefined ? undefined : subgraphIndex.get(id);
+    if (id === undefined || index === undefined || visible.has(id)) return;
+    openSubgraph(subgraphs[index].parent);
+    steps.push({ kind: "subgraph", index });
+    visible.add(id);
+    revealEdges();
+  };
+
+  nodes.forEach((node, nodeIndex) => {
+    openSubgraph(node.subgraph);
+    steps.push({ kind: "node", index: nodeIndex });
+    visible.add(node.id);
+    revealEdges();
+  });
+  // ノードを持たないサブグラフは最後に
+  subgraphs.forEach((subgraph) => openSubgraph(subgraph.id));
+
+  return steps;
+}
+
+// subgraph id [タイトル] / subgraph "タイトル" / subgraph タイトル（空白を含むタイトルはIDを自動で振る）
+function parseSubgraphHeader(text: string, count: number): { id: string; label: string } {
+  const bracket = text.match(/^([^\s[]+)\s*\[([\s\S]*)\]$/);
+  if (bracket) return { id: bracket[1], label: unquote(bracket[2]) };
+  const label = unquote(text);
+  return { id: /\s/.test(label) ? `subGraph${count}` : label, label };
+}
+
+// fill:#f96,stroke:#333,stroke-width:4px,color:#fff,stroke-dasharray: 5 5
+function parseStyle(text: string): FlowStyle {
+  const style: FlowStyle = {};
+  // 値の中のカンマ（stroke-dasharray: 5, 5）は直前の値の続きとして扱う
+  const declarations: string[] = [];
+  text
+    .replace(/;\s*$/, "")
+    .split(",")
+    .forEach((part) => {
+      if (part.includes(":") || declarations.length === 0) declarations.push(part);
+      else declarations[declarations.length - 1] += `,${part}`;
+    });
+  declarations.forEach((declaration) => {
+    const colon = declaration.indexOf(":");
+    if (colon < 0) return;
+    const key = declaration.slice(0, colon).trim();
+    const value = declaration.slice(colon + 1).trim().replace(/\s*!important$/, "");
+    if (!value) return;
+    if (key === "fill") style.fill = value;
+    if (key === "stroke") style.stroke = value;
+    if (key === "stroke-width" && !isNaN(parseFloat(value))) style.strokeWidth = parseFloat(value);
+    if (key === "stroke-dasharray") style.strokeDasharray = value.replace(/[,\s]+/g, " ");
+    if (key === "color") style.color = value;
+  });
+  return style;
+}
+
+// 後に書いたものが優先。何も指定がなければ undefined
+const mergeStyles = (...styles: (FlowStyle | undefined)[]): FlowStyle | undefined => {
+  const merged: FlowStyle = Object.assign({}, ...styles.filter(Boolean));
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+const splitList = (text: string) => text.split(",").map((item) => item.trim()).filter(Boolean);
+
+export function parseFlowchart(diagram: string): FlowchartModel {
+  const nodeMap = new Map<string, FlowNode>();
+  const edges: FlowEdge[] = [];
+
+  // classDef 名 → 見た目、ID → 付けられたクラス、style / linkStyle の直接指定
+  const classDefs = new Map<string, FlowStyle>();
+  const assignedClasses = new Map<string, string[]>();
+  const directStyles = new Map<string, FlowStyle>();
+  const linkStyles = new Map<number | "default", FlowStyle>();
+  const assignClass = (id: string, className: string) => assignedClasses.set(id, [...(assignedClasses.get(id) ?? []), className]);
+
+  const registerNode = (parsed: NodeToken) => {
+    if (parsed.className) assignClass(parsed.id, parsed.className);
+    const existing = nodeMap.get(parsed.id);
+    if (!existing) {
+      nodeMap.set(parsed.id, {
+        id: parsed.id,
+        label: parsed.label ?? parsed.id,
+        shape: parsed.shape ?? "rect",
+      });
+    } else {
+      // 後から形状・ラベルが定義された場合（A --> B の後に B[Label] や B@{ shape: cyl }）
+      existing.label = parsed.label ?? existing.label;
+      existing.shape = parsed.shape ?? existing.shape;
+    }
+    return parsed.id;
+  };
+
+  // A & B のようにまとめて書かれたノード
+  const readNodeGroup = (line: string, pos: number): { ids: string[]; end: number } | null => {
+    const ids: string[] = [];
+    let end = pos;
+    for (;;) {
+      while (/\s/.test(line[end] ?? "")) end++;
+      const node = readNode(line, end);
+      if (!node) break;
+      ids.push(registerNode(node));
+      mention(node.id);
+      end = node.end;
+      const separator = line.slice(end).match(/^\s*&/);
+      if (!separator) break;
+      end += separator[0].length;
+    }
+    return ids.length > 0 ? { ids, end } : null;
+  };
+
+  // 開いているサブグラフと、その中で書かれたノード
+  const subgraphs: FlowSubgraph[] = [];
+  const openSubgraphs: { subgraph: FlowSubgraph; mentioned: string[] }[] = [];
+  const memberOf = new Map<string, string>();
+  const mention = (id: string) => openSubgraphs[openSubgraphs.length - 1]?.mentioned.push(id);
+  // 内側から閉じるので、複数のサブグラフに書かれたノードは内側のものになる
+  const closeSubgraph = () => {
+    const closed = openSubgraphs.pop();
+    closed?.mentioned.forEach((id) => {
+      if (!memberOf.has(id)) memberOf.set(id, closed.subgraph.id);
+    });
+  };
+
+  // 向きの指定がなければ Mermaid と同じく上から下
+  let direction: FlowDirection = "TB";
+
+  contentLines(diagram).forEach((line) => {
+    const header = line.match(/^(?:flowchart|graph)(?:-elk)?\s+([^\s;]+)/);
+    if (header) {
+      direction = parseDirection(header[1]) ?? direction;
+      return;
+    }
+    // サブグラフの中ならそのサブグラフの向き、外なら図全体の向き
+    const directionStatement = line.match(/^direction\s+([^\s;]+)/);
+    if (directionStatement) {
+      const parsed = parseDirection(directionStatement[1]);
+      const current = openSubgraphs[openSubgraphs.length - 1]?.subgraph;
+      if (parsed && current) current.direction = parsed;
+      else if (parsed) direction = parsed;
+      return;
+    }
+    const subgraphHeader = line.match(/^subgraph\s+(.+)$/);
+    if (subgraphHeader) {
+      const subgraph: FlowSubgraph = { ...parseSubgraphHeader(subgraphHeader[1].trim(), subgraphs.length), parent: openSubgraphs[openSubgraphs.length - 1]?.subgraph.id };
+      subgraphs.push(subgraph);
+      openSubgraphs.push({ subgraph, mentioned: [] });
+      return;
+    }
+    if (/^end\b/.test(line)) {
+      closeSubgraph();
+      return;
+    }
+    const statement = line.replace(/;\s*$/, "");
+    const classDef = statement.match(/^classDef\s+(\S+)\s+(.+)$/);
+    if (classDef) {
+      splitList(classDef[1]).forEach((name) => classDefs.set(name, parseStyle(classDef[2])));
+      return;
+    }
+    const classAssignment = statement.match(/^class\s+(\S+)\s+(\S+)$/);
+    if (classAssignment) {
+      splitList(classAssignment[1]).forEach((id) => splitList(classAssignment[2]).forEach((name) => assignClass(id, name)));
+      return;
+    }
+    const style = statement.match(/^style\s+(\S+)\s+(.+)$/);
+    if (style) {
+      directStyles.set(style[1], { ...directStyles.get(style[1]), ...parseStyle(style[2]) });
+      return;
+    }
+    // linkStyle の番号は定義順の線（並べ替える前）
+    const linkStyle = statement.match(/^linkStyle\s+(\S+)\s+(.+)$/);
+    if (linkStyle) {
+      splitList(linkStyle[1]).forEach((target) => {
+        const key = target === "default" ? "default" : parseInt(target, 10);
+        if (key === "default" || !isNaN(key)) linkStyles.set(key, { ...linkStyles.get(key), ...parseStyle(linkStyle[2]) });
+      });
+      return;
+    }
+    if (NON_NODE_STATEMENT.test(line)) return;
+
+    // ノード群 → 線 → ノード群 → ...（; で区切って複数の文を書ける）
+    let pos = 0;
+    while (pos < line.length) {
+      let sources = readNodeGroup(line, pos);
+      if (!sources) break;
+      pos = sources.end;
+      for (;;) {
+        const link = readLink(line, pos);
+        const targets = link && readNodeGroup(line, link.end);
+        if (!link || !targets) break;
+        sources.ids.forEach((from) => targets.ids.forEach((to) => edges.push({ from, to, ...link.link })));
+        sources = targets;
+        pos = targets.end;
+      }
+      const next = line.indexOf(";", pos);
+      if (next < 0) break;
+      pos = next + 1;
+    }
+  });
+
+  // end の書き忘れは末尾で閉じる
+  while (openSubgraphs.length > 0) closeSubgraph();
+
+  // 線の端に書かれたサブグラフIDはノードではない
+  const subgraphIds = new Set(subgraphs.map((subgraph) => subgraph.id));
+  subgraphIds.forEach((id) => nodeMap.delete(id));
+  nodeMap.forEach((node) => {
+    node.subgraph = memberOf.get(node.id);
+  });
+
+  // classDef default → 付けたクラス（順に） → style の順に重ねる
+  const styleOf = (id: string) =>
+    mergeStyles(classDefs.get("default"), ...(assignedClasses.get(id) ?? []).map((name) => classDefs.get(name)), directStyles.get(id));
+  nodeMap.forEach((node) => {
+    node.style = styleOf(node.id);
+  });
+  subgraphs.forEach((subgraph) => {
+    subgraph.style = mergeStyles(...(assignedClasses.get(subgraph.id) ?? []).map((name) => classDefs.get(name)), directStyles.get(subgraph.id));
+  });
+  edges.forEach((edge, i) => {
+    edge.style = mergeStyles(linkStyles.get("default"), linkStyles.get(i));
+  });
+
+  const loopbacks = findLoopbacks([...nodeMap.values()], edges);
+  loopbacks.forEach((edge) => {
+    edge.loopback = true;
+  });
+  const nodes = sortByRank([...nodeMap.values()], edges, loopbacks);
+  const sortedEdges = sortEdgesByNodeOrder(edges, nodes);
+
+  return {
+    type: "flowchart",
+    direction,
+    nodes,
+    edges: sortedEdges,
+    subgraphs,
+    steps: buildSteps(nodes, sortedEdges, subgraphs),
+  };
+}
@@ -0,0 +1,372 @@
+import { GanttModel, GanttTask, GanttTick, RevealStep } from "./types";
+import { contentLines } from "./text";
+
+// タスク以外のステートメント（未対応のものは読み飛ばす）
+const KEYWORD = /^(gantt|title|dateFormat|axisFormat|tickInterval|excludes|includes|inclusiveEndDates|todayMarker|topAxis|weekday|weekend|displayMode|click|accTitle|accDescr)\b\s*:?\s*(.*)$/;
+
+// タスクの状態タグ（メタデータの先頭に任意個）
+const TAGS = ["crit", "done", "active", "milestone"] as const;
+type Tag = (typeof TAGS)[number];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// ========== 日付 ==========
+
+// dateFormat の書式（dayjs 互換の一部）
+const DATE_TOKENS: Record<string, string> = {
+  YYYY: String.raw`(\d{4})`,
+  YY: String.raw`(\d{2})`,
+  SSS: String.raw`(\d{1,3})`,
+  MM: String.raw`(\d{1,2})`,
+  DD: String.raw`(\d{1,2})`,
+  HH: String.raw`(\d{1,2})`,
+  mm: String.raw`(\d{1,2})`,
+  ss: String.raw`(\d{1,2})`,
+  M: String.raw`(\d{1,2})`,
+  D: String.raw`(\d{1,2})`,
+  H: String.raw`(\d{1,2})`,
+  m: String.raw`(\d{1,2})`,
+  s: String.raw`(\d{1,2})`,
+  X: String.raw`(\d+(?:\.\d+)?)`,
+  x: String.raw`(\d+)`,
+};
+const DATE_TOKEN = new RegExp(`(${Object.keys(DATE_TOKENS).join("|")})`);
+
+// 書式に合わなければ Date.parse に任せる。解釈できなければ null
+function parseDate(text: string, format: string): number | null {
+  const tokens: string[] = [];
+  const source = format
+    .split(DATE_TOKEN)
+    .map((part, i) => {
+      if (i % 2 === 0) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      tokens.push(part);
+      return DATE_TOKENS[part];
+    })
+    .join("");
+  const match = text.match(new RegExp(`^${source}$`));
+  if (match) {
+    const value = (token: string, fallback: number) => {
+      const i = tokens.indexOf(token);
+      return i < 0 ? fallback : parseFloat(match[i + 1]);
+    };
+    if (tokens.includes("X")) return value("X", 0) * 1000;
+    if (tokens.includes("x")) return value("x", 0);
+    const year = tokens.includes("YY") ? 2000 + value("YY", 0) : value("YYYY", 1970);
+    return Date.UTC(
+      year,
+      value("MM", value("M", 1)) - 1,
+      value("DD", value("D", 1)),
+      value("HH", value("H", 0)),
+      value("mm", value("m", 0)),
+      value("ss", value("s", 0)),
+      value("SSS", 0),
+    );
+  }
+  // 年を含まない文字列（3d など）を Date.parse に渡すと任意の日付になるので除く
+  const fallback = /\d{4}/.test(text) ? Date.parse(text) : NaN;
+  return isNaN(fallback) ? null : fallback;
+}
+
+type DurationUnit = "ms" | "s" | "m" | "h" | "d" | "w" | "M" | "y";
+
+const UNIT_MILLISECONDS: Partial<Record<DurationUnit, number>> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: HOUR,
+  d: DAY,
+  w: 7 * DAY,
+};
+
+// 月・年はカレンダー通りに進める
+function addDuration(time: number, amount: number, unit: DurationUnit): number {
+  const milliseconds = UNIT_MILLISECONDS[unit];
+  if (milliseconds !== undefined) return time + amount * milliseconds;
+  const date = new Date(time);
+  if (unit === "M") date.setUTCMonth(date.getUTCMonth() + amount);
+  else date.setUTCFullYear(date.getUTCFullYear() + amount);
+  return date.getTime();
+}
+
+const DURATION = /^(\d+(?:\.\d+)?)\s*(ms|[smhdwMy])$/;
+
+// tickInterval 1week など
+const TICK_INTERVAL = /^(\d+)\s*(millisecond|second|minute|hour|day|week|month)s?$/;
+const TICK_UNITS: Record<string, DurationUnit> = {
+  millisecond: "ms",
+  second: "s",
+  minute: "m",
+  hour: "h",
+  day: "d",
+  week: "w",
+  month: "M",
+};
+
+const startOfDay = (time: number) => Math.floor(time / DAY) * DAY;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+// axisFormat（d3-time-format 互換の一部、UTC）
+function formatDate(time: number, format: string): string {
+  const date = new Date(time);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const hours12 = date.getUTCHours() % 12 || 12;
+  const directives: Record<string, string> = {
+    Y: String(date.getUTCFullYear()),
+    y: pad(date.getUTCFullYear() % 100),
+    m: pad(date.getUTCMonth() + 1),
+    d: pad(date.getUTCDate()),
+    e: String(date.getUTCDate()).padStart(2, " "),
+    H: pad(date.getUTCHours()),
+    I: pad(hours12),
+    M: pad(date.getUTCMinutes()),
+    S: pad(date.getUTCSeconds()),
+    L: pad(date.getUTCMilliseconds(), 3),
+    p: date.getUTCHours() < 12 ? "AM" : "PM",
+    b: MONTHS[date.getUTCMonth()].slice(0, 3),
+    B: MONTHS[date.getUTCMonth()],
+    a: WEEKDAYS[date.getUTCDay()].replace(/^./, (c) => c.toUpperCase()).slice(0, 3),
+    A: WEEKDAYS[date.getUTCDay()].replace(/^./, (c) => c.toUpperCase()),
+    "%": "%",
+  };
+  return format.replace(/%[-_0]?(.)/g, (all, directive: string) => directives[directive] ?? all);
+}
+
+// ========== 時間軸 ==========
+
+// 目盛りが多すぎない最小の間隔
+const TICK_CANDIDATES: [number, DurationUnit][] = [
+  [1, "h"],
+  [3, "h"],
+  [6, "h"],
+  [12, "h"],
+  [1, "d"],
+  [2, "d"],
+  [1, "w"],
+  [2, "w"],
+  [1, "M"],
+  [3, "M"],
+  [1, "y"],
+];
+const MAX_TICKS = 10;
+
+// 間隔の単位の区切り（日・週は月曜・月初・年初）に揃えた最初の目盛り
+function firstTick(start: number, amount: number, unit: DurationUnit): number {
+  const milliseconds = UNIT_MILLISECONDS[unit];
+  if (unit === "w") {
+    const day = startOfDay(start);
+    const monday = day - ((new Date(day).getUTCDay() + 6) % 7) * DAY;
+    return monday < start ? monday + 7 * DAY : monday;
+  }
+  if (milliseconds !== undefined) {
+    const step = unit === "d" ? DAY : amount * milliseconds;
+    return Math.ceil(start / step) * step;
+  }
+  const date = new Date(start);
+  const first = unit === "M" ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) : Date.UTC(date.getUTCFullYear(), 0, 1);
+  return first < start ? addDuration(first, 1, unit) : first;
+}
+
+// 起点からの経過（+0d, +5d。日の途中は +30h のように時間で）
+const relativeLabel = (offset: number) => (offset % DAY === 0 ? `+${offset / DAY}d` : `+${Math.round(offset / HOUR)}h`);
+
+// origin があれば日付のないチャートとして、起点から等間隔に相対の目盛りを打つ
+function computeTicks(start: number, end: number, axisFormat: string, interval?: [number, DurationUnit], origin?: number): GanttTick[] {
+  const span = end - start;
+  const [amount, unit] =
+    interval ??
+    TICK_CANDIDATES.find(([amount, unit]) => span / (addDuration(0, amount, unit) || 1) <= MAX_TICKS) ??
+    TICK_CANDIDATES[TICK_CANDIDATES.length - 1];
+
+  const ticks: GanttTick[] = [];
+  if (origin !== undefined) {
+    const step = addDuration(0, amount, unit) || DAY;
+    for (let time = origin + Math.ceil((start - origin) / step) * step; time <= end && ticks.length < 100; time += step) {
+      ticks.push({ time, label: relativeLabel(time - origin) });
+    }
+    return ticks;
+  }
+  for (let time = firstTick(start, amount, unit); time <= end && ticks.length < 100; time = addDuration(time, amount, unit)) {
+    ticks.push({ time, label: formatDate(time, axisFormat) });
+  }
+  return ticks;
+}
+
+// ========== タスク ==========
+
+interface RawTask {
+  label: string;
+  section: number;
+  tags: Set<Tag>;
+  id?: string;
+  start?: string;
+  end: string;
+}
+
+// メタデータ: [タグ...,] [id,] [開始,] 終了
+function parseMetadata(metadata: string): Omit<RawTask, "label" | "section"> {
+  const items = metadata.split(",").map((item) => item.trim());
+  const tags = new Set<Tag>();
+  while (items.length > 1 && (TAGS as readonly string[]).includes(items[0])) {
+    tags.add(items.shift() as Tag);
+  }
+  if (items.length >= 3) return { tags, id: items[0], start: items[1], end: items[2] };
+  if (items.length === 2) return { tags, start: items[0], end: items[1] };
+  return { tags, end: items[0] ?? "" };
+}
+
+export function parseGantt(diagram: string): GanttModel {
+  let title: string | undefined;
+  let dateFormat = "YYYY-MM-DD";
+  let axisFormat = "%Y-%m-%d";
+  let tickInterval: [number, DurationUnit] | undefined;
+  let inclusiveEndDates = false;
+  const excludes: string[] = [];
+  const sections: string[] = [];
+  const rawTasks: RawTask[] = [];
+
+  contentLines(diagram).forEach((line) => {
+    const sectionMatch = line.match(/^section\s+(.+)$/);
+    if (sectionMatch) {
+      sections.push(sectionMatch[1].trim());
+      return;
+    }
+
+    const keyword = line.match(KEYWORD);
+    if (keyword) {
+      const value = keyword[2].trim();
+      switch (keyword[1]) {
+        case "title":
+          title = value;
+          break;
+        case "dateFormat":
+          dateFormat = value;
+          break;
+        case "axisFormat":
+          axisFormat = value;
+          break;
+        case "tickInterval": {
+          const interval = value.match(TICK_INTERVAL);
+          if (interval) tickInterval = [parseInt(interval[1], 10), TICK_UNITS[interval[2]]];
+          break;
+        }
+        case "excludes":
+          excludes.push(...value.split(/[\s,]+/).filter(Boolean).map((item) => item.toLowerCase()));
+          break;
+        case "inclusiveEndDates":
+          inclusiveEndDates = true;
+          break;
+      }
+      return;
+    }
+
+    // タスク名 : メタデータ（section より前のタスクは無名のセクションに入れる）
+    const colon = line.indexOf(":");
+    if (colon < 0) return;
+    if (sections.length === 0) sections.push("");
+    rawTasks.push({ label: line.slice(0, colon).trim(), section: sections.length - 1, ...parseMetadata(line.slice(colon + 1)) });
+  });
+
+  // excludes: weekends / 曜日名 / 日付
+  const excludedDays = new Set(
+    excludes.map((item) => parseDate(item, dateFormat)).filter((time): time is number => time !== null).map(startOfDay),
+  );
+  const isExcluded = (time: number) => {
+    const weekday = new Date(time).getUTCDay();
+    if (excludes.includes("weekends") && (weekday === 0 || weekday === 6)) return true;
+    return excludes.includes(WEEKDAYS[weekday]) || excludedDays.has(startOfDay(time));
+  };
+
+  // 期間指定のタスクは除外日の分だけ終了を後ろにずらす
+  const skipExcluded = (start: number, end: number) => {
+    if (excludes.length === 0) return end;
+    let extended = end;
+    for (let day = startOfDay(start); day < extended && day - start < 3650 * DAY; day += DAY) {
+      if (isExcluded(day)) extended += DAY;
+    }
+    return extended;
+  };
+
+  // 日付が1つもなければ固定の起点から始め、目盛りは起点からの日数で表す（今日にすると描画のたびに結果が変わる）
+  const firstDate = rawTasks
+    .flatMap((raw) => [raw.start, raw.end])
+    .map((spec) => (spec && !DURATION.test(spec) && !/^(after|until)\s/.test(spec) ? parseDate(spec, dateFormat) : null))
+    .find((time): time is number => time !== null);
+  const origin = firstDate ?? 0;
+
+  const ids = rawTasks.map((raw, i) => raw.id ?? `task${i + 1}`);
+  const resolved: ({ start: number; end: number } | undefined)[] = [];
+  const resolving = new Set<number>();
+
+  // after / until は前方参照もあるので再帰で解決する（循環は直前のタスク扱い）
+  const resolve = (i: number): { start: number; end: number } => {
+    const cached = resolved[i];
+    if (cached) return cached;
+    const previousEnd = () => (i > 0 && !resolving.has(i - 1) ? resolve(i - 1).end : origin);
+    const referenced = (names: string) =>
+      names
+        .split(/\s+/)
+        .map((name) => ids.indexOf(name))
+        .filter((index) => index >= 0 && !resolving.has(index))
+        .map(resolve);
+
+    resolving.add(i);
+    const raw = rawTasks[i];
+
+    let start = previousEnd();
+    const after = raw.start?.match(/^after\s+(.+)$/);
+    if (after) {
+      const ends = referenced(after[1]).map((task) => task.end);
+      if (ends.length > 0) start = Math.max(...ends);
+    } else if (raw.start) {
+      start = parseDate(raw.start, dateFormat) ?? start;
+    }
+
+    let end = start + DAY;
+    const until = raw.end.match(/^until\s+(.+)$/);
+    const duration = raw.end.match(DURATION);
+    if (until) {
+      const starts = referenced(until[1]).map((task) => task.start);
+      if (starts.length > 0) end = Math.min(...starts);
+    } else if (duration) {
+      end = skipExcluded(start, addDuration(start, parseFloat(duration[1]), duration[2] as DurationUnit));
+    } else {
+      const date = parseDate(raw.end, dateFormat);
+      if (date !== null) end = inclusiveEndDates ? date + DAY : date;
+    }
+    if (raw.tags.has("milestone")) end = start;
+
+    resolving.delete(i);
+    resolved[i] = { start, end: Math.max(start, end) };
+    return resolved[i]!;
+  };
+
+  const tasks: GanttTask[] = rawTasks.map((raw, i) => ({
+    id: ids[i],
+    label: raw.label,
+    section: raw.section,
+    ...resolve(i),
+    dependsOn: (raw.start?.match(/^after\s+(.+)$/)?.[1].split(/\s+/) ?? []).filter((id) => ids.includes(id)),
+    milestone: raw.tags.has("milestone"),
+    crit: raw.tags.has("crit"),
+    done: raw.tags.has("done"),
+    active: raw.tags.has("active"),
+  }));
+
+  const start = tasks.length > 0 ? Math.min(...tasks.map((task) => task.start)) : origin;
+  const latest = tasks.length > 0 ? Math.max(...tasks.map((task) => task.end)) : origin;
+  const end = latest > start ? latest : start + DAY;
+
+  // 時間軸 → 再生ヘッドが開始日に達する順にタスク
+  const steps: RevealStep<"axis" | "task">[] = [
+    { kind: "axis", index: 0 },
+    ...tasks
+      .map((task, index) => ({ task, index }))
+      .sort((a, b) => a.task.start - b.task.start || a.index - b.index)
+      .map(({ index }) => ({ kind: "task" as const, index })),
+  ];
+
+  return { type: "gantt", title, sections, tasks, start, end, ticks: computeTicks(start, end, axisFormat, tickInterval, firstDate === undefined ? origin : undefined), steps };
+}
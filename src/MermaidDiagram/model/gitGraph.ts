@@ -0,0 +1,178 @@
+import { GitBranch, GitCommit, GitCommitType, GitGraphModel, RevealStep } from "./types";
+import { contentLines, diagramHash } from "./text";
+import { textWidth } from "./layered";
+
+// ブランチ（レーン）の色
+const BRANCH_COLORS = ["#4e79a7", "#f28e2b", "#59a14f", "#e15759", "#b07aa1", "#76b7b2", "#edc948", "#ff9da7"];
+
+// commit id: "x" tag: "v1" type: HIGHLIGHT のような属性
+const ATTRIBUTE = /(id|tag|type|order|parent)\s*:\s*("[^"]*"|[^\s"]+)/;
+
+const COMMIT_TYPES: Record<string, GitCommitType> = {
+  NORMAL: "normal",
+  REVERSE: "reverse",
+  HIGHLIGHT: "highlight",
+};
+
+// レイアウト用の寸法（SVG座標系）
+const COMMIT_GAP = 80;
+const LANE_GAP = 70;
+const MARGIN = 40;
+const LABEL_FONT_SIZE = 14;
+const LABEL_PADDING = 24;
+// タグ・ブランチ名のための余白
+const LABEL_ROOM = 40;
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, "$1");
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = new RegExp(ATTRIBUTE.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    attributes[match[1]] = unquote(match[2]);
+  }
+  return attributes;
+}
+
+interface ParsedBranch {
+  name: string;
+  order?: number;
+  // 作成時点の先頭コミット（その位置から分岐して見せる）
+  forkSeq: number;
+  head: number | null;
+}
+
+interface ParsedCommit {
+  id: string;
+  branch: number;
+  parents: number[];
+  type: GitCommitType;
+  tag?: string;
+}
+
+export function parseGitGraph(diagram: string): GitGraphModel {
+  const lines = contentLines(diagram);
+  const header = lines[0] ?? "";
+  const direction = header.match(/^gitGraph\s+(LR|TB|BT)\s*:?/i)?.[1].toUpperCase();
+  const orientation = direction === "TB" || direction === "BT" ? direction : "LR";
+
+  // %%{init}%% / フロントマターの mainBranchName
+  const mainBranchName = diagram.match(/mainBranchName['"]?\s*:\s*['"]?([^'"\s,}]+)/)?.[1] ?? "main";
+
+  const branches: ParsedBranch[] = [{ name: mainBranchName, forkSeq: 0, head: null }];
+  const commits: ParsedCommit[] = [];
+  const steps: RevealStep<"branch" | "commit">[] = [{ kind: "branch", index: 0 }];
+  let current = 0;
+
+  const branchIndex = (name: string) => branches.findIndex((branch) => branch.name === name);
+
+  // コミットを現在のブランチの先頭に積む
+  const addCommit = (commit: Omit<ParsedCommit, "id" | "branch">, id?: string) => {
+    const index = commits.length;
+    commits.push({ ...commit, branch: current, id: id ?? `${index}-${diagramHash(`${diagram}:${index}`).slice(0, 7)}` });
+    branches[current].head = index;
+    steps.push({ kind: "commit", index });
+  };
+
+  lines.slice(1).forEach((line) => {
+    const command = line.match(/^(commit|branch|checkout|switch|merge|cherry-pick)\b\s*(.*)$/);
+    if (!command) return;
+    const [, keyword, rest] = command;
+    const name = rest.match(/^("[^"]*"|[^\s"]+)/)?.[1];
+    const attributes = parseAttributes(rest);
+    const head = branches[current].head;
+
+    switch (keyword) {
+      case "commit":
+        addCommit({ parents: head === null ? [] : [head], type: COMMIT_TYPES[attributes.type] ?? "normal", tag: attributes.tag }, attributes.id);
+        break;
+
+      case "branch": {
+        if (!name || branchIndex(unquote(name)) >= 0) break;
+        const order = attributes.order !== undefined ? parseFloat(attributes.order) : undefined;
+        branches.push({ name: unquote(name), order, forkSeq: head === null ? 0 : head + 1, head });
+        current = branches.length - 1;
+        steps.push({ kind: "branch", index: current });
+        break;
+      }
+
+      case "checkout":
+      case "switch": {
+        const target = name ? branchIndex(unquote(name)) : -1;
+        if (target >= 0) current = target;
+        break;
+      }
+
+      case "merge": {
+        const source = name ? branchIndex(unquote(name)) : -1;
+        const sourceHead = source >= 0 ? branches[source].head : null;
+        if (source < 0 || source === current || sourceHead === null) break;
+        addCommit(
+          {
+            parents: head === null ? [sourceHead] : [head, sourceHead],
+            type: attributes.type ? (COMMIT_TYPES[attributes.type] ?? "merge") : "merge",
+            tag: attributes.tag,
+          },
+          attributes.id,
+        );
+        break;
+      }
+
+      case "cherry-pick": {
+        const picked = commits.find((commit) => commit.id === attributes.id);
+        if (!picked) break;
+        addCommit({ parents: head === null ? [] : [head], type: "cherryPick", tag: attributes.tag ?? `cherry-pick:${picked.id}` });
+        break;
+      }
+    }
+  });
+
+  // レーンの並び: order 指定順（未指定は作成順）、main は先頭
+  const lanes = branches
+    .map((branch, index) => ({ index, order: index === 0 ? -Infinity : (branch.order ?? index) }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ index }) => index);
+  const laneOf = (branch: number) => lanes.indexOf(branch);
+
+  // LR はブランチ名の列を左に、TB は上に、BT は下に取る
+  // 進行方向の位置は seq ±0.5 まで（レーンの両端）
+  const labelWidth = Math.max(...branches.map((branch) => textWidth(branch.name, LABEL_FONT_SIZE))) + LABEL_PADDING;
+  const lastSeq = Math.max(0, commits.length - 1);
+  const along = (seq: number) => {
+    if (orientation === "LR") return MARGIN + labelWidth + COMMIT_GAP / 2 + seq * COMMIT_GAP;
+    if (orientation === "TB") return MARGIN + LABEL_ROOM + COMMIT_GAP / 2 + seq * COMMIT_GAP;
+    return MARGIN + (lastSeq + 0.5 - seq) * COMMIT_GAP;
+  };
+  // 交差方向はタグ（LR は上、TB / BT は左）の分を空ける
+  const laneGap = orientation === "LR" ? LANE_GAP : Math.max(LANE_GAP * 2, labelWidth + 16);
+  const laneStart = orientation === "LR" ? MARGIN + LABEL_ROOM : MARGIN + laneGap / 2;
+  const across = (lane: number) => laneStart + lane * laneGap;
+  const point = (seq: number, lane: number) =>
+    orientation === "LR" ? { x: along(seq), y: across(lane) } : { x: across(lane), y: along(seq) };
+
+  const resultBranches: GitBranch[] = branches.map((branch, index) => {
+    const lane = laneOf(index);
+    const from = point(branch.forkSeq - 0.5, lane);
+    const to = point(lastSeq + 0.5, lane);
+    const label =
+      orientation === "LR"
+        ? { x: MARGIN + labelWidth / 2, y: from.y }
+        : { x: from.x, y: orientation === "TB" ? MARGIN + LABEL_ROOM / 2 : along(-0.5) + LABEL_ROOM / 2 };
+    return { name: branch.name, color: BRANCH_COLORS[lane % BRANCH_COLORS.length], from, to, label };
+  });
+
+  const resultCommits: GitCommit[] = commits.map((commit, seq) => ({ ...commit, ...point(seq, laneOf(commit.branch)) }));
+
+  const alongSize = (orientation === "BT" ? along(-0.5) + LABEL_ROOM : along(lastSeq + 0.5)) + MARGIN;
+  const acrossSize = orientation === "LR" ? across(branches.length - 1) + LABEL_ROOM + MARGIN : across(branches.length - 1) + laneGap / 2 + MARGIN;
+  return {
+    type: "gitGraph",
+    orientation,
+    branches: resultBranches,
+    commits: resultCommits,
+    width: orientation === "LR" ? alongSize : acrossSize,
+    height: orientation === "LR" ? acrossSize : alongSize,
+    steps,
+  };
+}
@@ -0,0 +1,96 @@
+import { DiagramModel, DiagramType, RevealStep } from "./types";
+import { contentLines } from "./text";
+import { parseFlowchart } from "./flowchart";
+import { parseSequence } from "./sequence";
+import { parsePie } from "./pie";
+import { parseState } from "./state";
+import { parseMindmap } from "./mindmap";
+import { parseClass } from "./class";
+import { parseEr } from "./er";
+import { parseGantt } from "./gantt";
+import { parseGitGraph } from "./gitGraph";
+import { parseTimeline } from "./timeline";
+import { parseJourney } from "./journey";
+import { parseXyChart } from "./xyChart";
+import { parseQuadrant } from "./quadrant";
+import { parseSankey } from "./sankey";
+
+export * from "./types";
+export * from "./timing";
+export { diagramHash } from "./text";
+
+// 図として解釈できない入力
+export class DiagramParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiagramParseError";
+  }
+}
+
+// 図のタイプを検出（フロントマター・コメントの後の最初の行で判定）
+export function detectDiagramType(diagram: string): DiagramType {
+  const header = (contentLines(diagram)[0] ?? "").toLowerCase();
+  if (header.startsWith("flowchart") || header.startsWith("graph")) return "flowchart";
+  if (header.startsWith("sequencediagram")) return "sequence";
+  if (header.startsWith("pie")) return "pie";
+  if (header.startsWith("statediagram")) return "state";
+  if (header.startsWith("mindmap")) return "mindmap";
+  if (header.startsWith("classdiagram")) return "class";
+  if (header.startsWith("erdiagram")) return "er";
+  if (header.startsWith("gantt")) return "gantt";
+  if (header.startsWith("gitgraph")) return "gitGraph";
+  if (header.startsWith("timeline")) return "timeline";
+  if (header.startsWith("journey")) return "journey";
+  if (header.startsWith("xychart")) return "xychart";
+  if (header.startsWith("quadrantchart")) return "quadrant";
+  if (header.startsWith("sankey")) return "sankey";
+  return "unknown";
+}
+
+// Mermaid定義を1回だけパースして中間表現を返す
+export function parseDiagram(diagram: string): DiagramModel {
+  if (contentLines(diagram).length === 0) {
+    throw new DiagramParseError("Diagram is empty");
+  }
+  const type = detectDiagramType(diagram);
+  switch (type) {
+    case "flowchart":
+      return parseFlowchart(diagram);
+    case "sequence":
+      return parseSequence(diagram);
+    case "pie":
+      return parsePie(diagram);
+    case "state":
+      return parseState(diagram);
+    case "mindmap":
+      return parseMindmap(diagram);
+    case "class":
+      return parseClass(diagram);
+    case "er":
+      return parseEr(diagram);
+    case "gantt":
+      return parseGantt(diagram);
+    case "gitGraph":
+      return parseGitGraph(diagram);
+    case "timeline":
+      return parseTimeline(diagram);
+    case "journey":
+      return parseJourney(diagram);
+    case "xychart":
+      return parseXyChart(diagram);
+    case "quadrant":
+      return parseQuadrant(diagram);
+    case "sankey":
+      return parseSankey(diagram);
+    default:
+      // 未対応の図は定義の行数をステップ数にする（SVGの要素はこのステップに割り振って表示する）
+      return { type, steps: contentLines(diagram).slice(1).map((_, index) => ({ kind: "element" as const, index })) };
+  }
+}
+
+// (kind, index) → ステップ番号 の検索関数を作る
+export function createStepLookup<K extends string>(steps: RevealStep<K>[]): (kind: K, index: number) => number {
+  const lookup = new Map<string, number>();
+  steps.forEach((step, i) => lookup.set(`${step.kind}:${step.index}`, i));
+  return (kind, index) => lookup.get(`${kind}:${index}`) ?? -1;
+}
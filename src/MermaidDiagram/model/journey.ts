@@ -0,0 +1,122 @@
+import { JourneyActor, JourneyModel, JourneySection, JourneyTask, RevealStep } from "./types";
+import { contentLines } from "./text";
+import { textWidth, wrapText } from "./layered";
+
+// セクションの色（Tableau 10）と参加者の色
+const SECTION_COLORS = ["#4e79a7", "#f28e2b", "#e15759", "#76b7b2", "#59a14f", "#edc948", "#b07aa1", "#ff9da7", "#9c755f", "#bab0ac"];
+const ACTOR_COLORS = ["#ffd166", "#7bdff2", "#ff9da7", "#c3a6ff", "#95d5b2", "#f4a261"];
+
+// レイアウト用の寸法（SVG座標系）
+const MARGIN = 40;
+const TASK_WIDTH = 150;
+const TASK_GAP = 20;
+const FONT_SIZE = 14;
+const LINE_HEIGHT = 19;
+const PADDING = 10;
+const MIN_TASK_HEIGHT = 50;
+const LEGEND_HEIGHT = 40;
+const SECTION_HEIGHT = 40;
+// タスクの箱から満足度の欄まで
+const SCORE_GAP = 60;
+const SCORE_RANGE = 220;
+
+export function parseJourney(diagram: string): JourneyModel {
+  let title: string | undefined;
+  const sectionNames: string[] = [];
+  const actorNames: string[] = [];
+  const rawTasks: { label: string; score: number; section: number; actors: number[] }[] = [];
+
+  contentLines(diagram).forEach((line) => {
+    if (/^(journey|accTitle|accDescr)\b/.test(line)) return;
+
+    const titleMatch = line.match(/^title\s+(.+)$/);
+    if (titleMatch) {
+      title = titleMatch[1].trim();
+      return;
+    }
+
+    const sectionMatch = line.match(/^section\s+(.+)$/);
+    if (sectionMatch) {
+      sectionNames.push(sectionMatch[1].trim());
+      return;
+    }
+
+    // タスク名: 満足度: 参加者, 参加者
+    const task = line.match(/^([^:]+):\s*(\d+(?:\.\d+)?)\s*(?::\s*(.*))?$/);
+    if (!task) return;
+    if (sectionNames.length === 0) sectionNames.push("");
+    const actors = (task[3] ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => {
+        if (!actorNames.includes(name)) actorNames.push(name);
+        return actorNames.indexOf(name);
+      });
+    rawTasks.push({
+      label: task[1].trim(),
+      score: Math.max(0, Math.min(parseFloat(task[2]), 5)),
+      section: sectionNames.length - 1,
+      actors,
+    });
+  });
+
+  const top = title ? MARGIN + 50 : MARGIN;
+
+  // 凡例は参加者を横に並べる
+  let legendX = MARGIN;
+  const actors: JourneyActor[] = actorNames.map((name, index) => {
+    const actor = { name, color: ACTOR_COLORS[index % ACTOR_COLORS.length], x: legendX, y: top + LEGEND_HEIGHT / 2 - 10 };
+    legendX += textWidth(name, FONT_SIZE) + 50;
+    return actor;
+  });
+
+  const sectionY = top + (actors.length > 0 ? LEGEND_HEIGHT : 0);
+  const taskY = sectionY + SECTION_HEIGHT + 10;
+  const taskX = (index: number) => MARGIN + index * (TASK_WIDTH + TASK_GAP);
+  const labels = rawTasks.map((raw) => wrapText(raw.label, FONT_SIZE, TASK_WIDTH - PADDING * 2));
+  const taskHeight = Math.max(MIN_TASK_HEIGHT, ...labels.map((lines) => lines.length * LINE_HEIGHT + PADDING * 2));
+
+  const tasks: JourneyTask[] = rawTasks.map((raw, index) => ({
+    lines: labels[index],
+    score: raw.score,
+    section: raw.section,
+    actors: raw.actors,
+    x: taskX(index),
+    y: taskY,
+    width: TASK_WIDTH,
+    height: taskHeight,
+  }));
+
+  const sections: JourneySection[] = sectionNames.map((name, index) => {
+    const columns = tasks.map((task, i) => (task.section === index ? i : -1)).filter((i) => i >= 0);
+    const x = columns.length > 0 ? taskX(columns[0]) : 0;
+    const width = columns.length > 0 ? taskX(columns[columns.length - 1]) + TASK_WIDTH - x : 0;
+    return { name, color: SECTION_COLORS[index % SECTION_COLORS.length], x, y: sectionY, width, height: SECTION_HEIGHT };
+  });
+
+  // セクション → そのタスク（無名のセクションは見出しを出さない）
+  const steps: RevealStep<"section" | "task">[] = [];
+  sections.forEach((section, sectionIndex) => {
+    if (section.name) steps.push({ kind: "section", index: sectionIndex });
+    tasks.forEach((task, index) => {
+      if (task.section === sectionIndex) steps.push({ kind: "task", index });
+    });
+  });
+
+  const scoreTop = taskY + taskHeight + SCORE_GAP;
+  const scoreBottom = scoreTop + SCORE_RANGE;
+  return {
+    type: "journey",
+    title,
+    actors,
+    sections,
+    tasks,
+    scoreTop,
+    scoreBottom,
+    lineHeight: LINE_HEIGHT,
+    width: Math.max(taskX(Math.max(tasks.length, 1)) - TASK_GAP + MARGIN, legendX + MARGIN, 400),
+    height: scoreBottom + 40 + MARGIN,
+    steps,
+  };
+}
@@ -0,0 +1,124 @@
+// 箱を親 → 子の階層（行）に並べるレイアウト（クラス図・ER図で共通）
+
+export interface BoxSize {
+  width: number;
+  height: number;
+}
+
+export interface LayeredLayout {
+  // 左上の座標
+  positions: Map<string, { x: number; y: number }>;
+  // 上の行から、行内は左から（親が必ず子より先）
+  order: string[];
+  width: number;
+  height: number;
+}
+
+export interface LayerSpacing {
+  hGap: number;
+  vGap: number;
+  margin: number;
+}
+
+// 全角文字は幅1em、それ以外は0.6emとして概算する
+export const textWidth = (text: string, fontSize: number) =>
+  [...text].reduce((sum, char) => sum + (char.charCodeAt(0) > 0x2e80 ? 1 : 0.6), 0) * fontSize;
+
+// 幅に収まるように折り返す（空白で区切り、全角文字は1文字ずつ区切れる）
+export function wrapText(text: string, fontSize: number, maxWidth: number): string[] {
+  const words = text.split(/(\s+|[⺀-￿])/).filter((word) => word && !/^\s+$/.test(word));
+  const lines: string[] = [];
+  let line = "";
+  words.forEach((word) => {
+    const joiner = line && !/[⺀-￿]$/.test(line) && !/^[⺀-￿]/.test(word) ? " " : "";
+    const candidate = line + joiner + word;
+    if (line && textWidth(candidate, fontSize) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [""];
+}
+
+// 最長パスで階層を決める（循環は箱の数で打ち切る）
+function assignLevels(ids: string[], links: [string, string][]): Map<string, number> {
+  const levels = new Map(ids.map((id) => [id, 0]));
+  const edges = links.filter(([parent, child]) => parent !== child);
+
+  for (let round = 0; round < ids.length; round++) {
+    let changed = false;
+    edges.forEach(([parent, child]) => {
+      const next = (levels.get(parent) ?? 0) + 1;
+      if (next > (levels.get(child) ?? 0)) {
+        levels.set(child, next);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+  return levels;
+}
+
+// ids は定義順、links は [親, 子]
+export function layoutLayers(
+  ids: string[],
+  links: [string, string][],
+  sizeOf: (id: string) => BoxSize,
+  { hGap, vGap, margin }: LayerSpacing,
+): LayeredLayout {
+  const levels = assignLevels(ids, links);
+
+  // 階層ごとに定義順で並べ、親の並び順に寄せる
+  const rows: string[][] = [];
+  ids.forEach((id) => {
+    (rows[levels.get(id) ?? 0] ??= []).push(id);
+  });
+  const rowIndex = new Map<string, number>();
+  rows.forEach((row, level) => {
+    if (!row) return;
+    if (level > 0) {
+      const parentPosition = (id: string) => {
+        const parents = links
+          .filter(([parent, child]) => child === id && rowIndex.has(parent))
+          .map(([parent]) => rowIndex.get(parent)!);
+        return parents.length > 0 ? parents.reduce((a, b) => a + b, 0) / parents.length : Infinity;
+      };
+      // 親が並んでいない（循環など）ときは定義順のまま（Infinity - Infinity は NaN になるので比べない）
+      const positions = new Map(row.map((id) => [id, parentPosition(id)]));
+      const definition = new Map(row.map((id, i) => [id, i]));
+      row.sort((a, b) => {
+        const [pa, pb] = [positions.get(a)!, positions.get(b)!];
+        return Number.isFinite(pa) && Number.isFinite(pb) && pa !== pb ? pa - pb : definition.get(a)! - definition.get(b)!;
+      });
+    }
+    row.forEach((id, i) => rowIndex.set(id, i));
+  });
+
+  const rowWidth = (row: string[]) => row.reduce((sum, id) => sum + sizeOf(id).width, 0) + hGap * (row.length - 1);
+  // 循環があると空いた階層ができる（疎な配列の穴は map で埋まらないので filter で除く）
+  const contentWidth = Math.max(0, ...rows.filter(Boolean).map(rowWidth));
+
+  const positions = new Map<string, { x: number; y: number }>();
+  const order: string[] = [];
+  let y = margin;
+  rows.forEach((row) => {
+    if (!row) return;
+    let x = margin + (contentWidth - rowWidth(row)) / 2;
+    row.forEach((id) => {
+      positions.set(id, { x, y });
+      order.push(id);
+      x += sizeOf(id).width + hGap;
+    });
+    y += Math.max(...row.map((id) => sizeOf(id).height)) + vGap;
+  });
+
+  return {
+    positions,
+    order,
+    width: contentWidth + margin * 2,
+    height: Math.max(y - vGap + margin, margin * 2),
+  };
+}
@@ -0,0 +1,95 @@
+import { MindmapModel, MindmapNode } from "./types";
+import { rawLines } from "./text";
+
+export function parseMindmap(diagram: string): MindmapModel {
+  const nodes: MindmapNode[] = [];
+  const connections: { from: string; to: string }[] = [];
+
+  const lines = rawLines(diagram).filter((line) => !line.trim().toLowerCase().startsWith("mindmap"));
+  let nodeId = 0;
+  const levelStack: { id: string; level: number; branchAngle?: number }[] = [];
+
+  // レイアウト設定
+  const centerX = 400;
+  const centerY = 300;
+
+  const levelOf = (line: string) => Math.floor((line.match(/^(\s*)/)?.[1].length || 0) / 4);
+
+  // Step 1: 最初にブランチ（レベル1）の数を数える
+  const branchCount = lines.filter((line) => levelOf(line) === 1).length;
+
+  // Step 2: ノードを処理
+  let currentBranchIndex = 0;
+  const childCountPerParent: { [parentId: string]: number } = {};
+
+  lines.forEach((line) => {
+    const level = levelOf(line);
+
+    let label = line.trim();
+    const rootMatch = label.match(/root\(\((.+)\)\)/);
+    if (rootMatch) {
+      label = rootMatch[1];
+    }
+
+    if (!label) return;
+
+    const id = `node-${nodeId++}`;
+    let x = centerX;
+    let y = centerY;
+    let branchAngle = 0;
+
+    if (level === 0) {
+      // ルートノード（中央）
+      nodes.push({ id, label, level, x, y, isRoot: true });
+      levelStack.length = 0;
+      levelStack.push({ id, level: 0 });
+      return;
+    }
+
+    // 親を探す
+    while (levelStack.length > 0 && levelStack[levelStack.length - 1].level >= level) {
+      levelStack.pop();
+    }
+    const parent = levelStack[levelStack.length - 1];
+
+    if (parent) {
+      if (level === 1) {
+        // レベル1: メインブランチ（均等配置）
+        branchAngle = (currentBranchIndex / branchCount) * Math.PI * 2 - Math.PI / 2;
+        const radius = 160;
+        x = centerX + radius * Math.cos(branchAngle);
+        y = centerY + radius * Math.sin(branchAngle);
+        currentBranchIndex++;
+      } else {
+        // レベル2+: 親のブランチ角度を基準に配置
+        const parentBranchAngle = parent.branchAngle || 0;
+
+        // 親の子の数を追跡
+        if (!childCountPerParent[parent.id]) {
+          childCountPerParent[parent.id] = 0;
+        }
+        const childIndex = childCountPerParent[parent.id];
+        childCountPerParent[parent.id]++;
+
+        // 子ノードを親の周りに扇形に配置
+        const spreadAngle = Math.PI / 6; // 30度の広がり
+        const childAngle = parentBranchAngle + (childIndex - 1) * spreadAngle;
+        const radius = 160 + (level - 1) * 120;
+
+        x = centerX + radius * Math.cos(childAngle);
+        y = centerY + radius * Math.sin(childAngle);
+        branchAngle = childAngle;
+      }
+
+      connections.push({ from: parent.id, to: id });
+    }
+
+    nodes.push({ id, label, level, x, y, parentId: parent?.id });
+    levelStack.push({ id, level, branchAngle });
+  });
+
+  // ノードの順（接続線は子ノードと同時に表示）
+  const steps = nodes.map((_, index) => ({ kind: "node" as const, index }));
+
+  return { type: "mindmap", nodes, connections, steps };
+}
@@ -0,0 +1,50 @@
+import { PieModel, PieSegment, RevealStep } from "./types";
+import { contentLines } from "./text";
+
+// 色のリスト（Tableau 10）
+const PIE_COLORS = ["#4e79a7", "#f28e2b", "#e15759", "#76b7b2", "#59a14f", "#edc948", "#b07aa1", "#ff9da7", "#9c755f", "#bab0ac"];
+
+export function parsePie(diagram: string): PieModel {
+  const lines = contentLines(diagram);
+
+  // タイトルを取得（pie title X / 単独の title X 行）
+  let title = "Pie Chart";
+  const rawSegments: { label: string; value: number }[] = [];
+  let totalValue = 0;
+
+  lines.forEach((line) => {
+    const titleMatch = line.match(/^(?:pie\b.*?\s)?title\s+(.+)/i);
+    if (titleMatch) {
+      title = titleMatch[1].trim();
+      return;
+    }
+    const match = line.match(/"([^"]+)"\s*:\s*(\d+(?:\.\d+)?)/);
+    if (match) {
+      const value = parseFloat(match[2]);
+      rawSegments.push({ label: match[1], value });
+      totalValue += value;
+    }
+  });
+
+  const segments: PieSegment[] = [];
+  let currentAngle = -Math.PI / 2; // 12時から開始
+  rawSegments.forEach((seg, i) => {
+    const angle = totalValue > 0 ? (seg.value / totalValue) * Math.PI * 2 : 0;
+    segments.push({
+      label: seg.label,
+      value: seg.value,
+      color: PIE_COLORS[i % PIE_COLORS.length],
+      startAngle: currentAngle,
+      endAngle: currentAngle + angle,
+    });
+    currentAngle += angle;
+  });
+
+  // タイトル → セグメントの順
+  const steps: RevealStep<"title" | "segment">[] = [
+    { kind: "title", index: 0 },
+    ...segments.map((_, index) => ({ kind: "segment" as const, index })),
+  ];
+
+  return { type: "pie", title, segments, steps };
+}
@@ -0,0 +1,92 @@
+import { QuadrantModel, QuadrantPoint, RevealStep } from "./types";
+import { contentLines } from "./text";
+
+const DEFAULT_POINT_COLOR = "#ffd166";
+const DEFAULT_POINT_RADIUS = 8;
+
+// Campaign A:::class1: [0.3, 0.6] radius: 12, color: #ff3300
+const POINT = /^(.+?)(?::::([\w-]+))?\s*:\s*\[\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\]\s*(.*)$/;
+
+interface PointStyle {
+  color?: string;
+  radius?: number;
+}
+
+// radius: 12, color: #ff3300（stroke-color などは無視する）
+function parseStyle(text: string): PointStyle {
+  const style: PointStyle = {};
+  text.split(",").forEach((part) => {
+    const [key, value] = part.split(":").map((item) => item?.trim());
+    if (key === "color" && value) style.color = value;
+    if (key === "radius" && value && !isNaN(parseFloat(value))) style.radius = parseFloat(value);
+  });
+  return style;
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(value, 1));
+
+// x-axis Low --> High（High は省略可）
+function parseAxis(text: string): { low: string; high: string } {
+  const [low, high] = text.split("-->").map((part) => part.trim());
+  return { low: low ?? "", high: high ?? "" };
+}
+
+export function parseQuadrant(diagram: string): QuadrantModel {
+  let title: string | undefined;
+  let xAxis = { low: "", high: "" };
+  let yAxis = { low: "", high: "" };
+  const quadrants = ["", "", "", ""];
+  const classStyles = new Map<string, PointStyle>();
+  const rawPoints: { label: string; x: number; y: number; className?: string; style: PointStyle }[] = [];
+
+  contentLines(diagram).forEach((line) => {
+    if (/^(quadrantChart|accTitle|accDescr)\b/.test(line)) return;
+
+    const titleMatch = line.match(/^title\s+(.+)$/);
+    if (titleMatch) {
+      title = titleMatch[1].trim();
+      return;
+    }
+    const axis = line.match(/^(x-axis|y-axis)\s+(.+)$/);
+    if (axis) {
+      if (axis[1] === "x-axis") xAxis = parseAxis(axis[2]);
+      else yAxis = parseAxis(axis[2]);
+      return;
+    }
+    const quadrant = line.match(/^quadrant-([1-4])\s+(.+)$/);
+    if (quadrant) {
+      quadrants[parseInt(quadrant[1], 10) - 1] = quadrant[2].trim();
+      return;
+    }
+    const classDef = line.match(/^classDef\s+([\w-]+)\s+(.+)$/);
+    if (classDef) {
+      classStyles.set(classDef[1], parseStyle(classDef[2]));
+      return;
+    }
+    const point = line.match(POINT);
+    if (point) {
+      const [, label, className, x, y, style] = point;
+      rawPoints.push({ label: label.trim(), x: clamp01(parseFloat(x)), y: clamp01(parseFloat(y)), className, style: parseStyle(style) });
+    }
+  });
+
+  // 直接の指定 > classDef > 既定値
+  const points: QuadrantPoint[] = rawPoints.map((raw) => {
+    const classStyle = (raw.className && classStyles.get(raw.className)) || {};
+    return {
+      label: raw.label,
+      x: raw.x,
+      y: raw.y,
+      radius: raw.style.radius ?? classStyle.radius ?? DEFAULT_POINT_RADIUS,
+      color: raw.style.color ?? classStyle.color ?? DEFAULT_POINT_COLOR,
+    };
+  });
+
+  // 象限 1〜4 → 点を定義順に
+  const steps: RevealStep<"quadrant" | "point">[] = [
+    ...quadrants.map((_, index) => ({ kind: "quadrant" as const, index })),
+    ...points.map((_, index) => ({ kind: "point" as const, index })),
+  ];
+
+  return { type: "quadrant", title, xAxis, yAxis, quadrants, points, steps };
+}
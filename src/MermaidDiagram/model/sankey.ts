@@ -0,0 +1,140 @@
+import { RevealStep, SankeyLink, SankeyModel, SankeyNode } from "./types";
+import { contentLines } from "./text";
+
+// ノードの色（Tableau 10）
+const NODE_COLORS = ["#4e79a7", "#f28e2b", "#e15759", "#76b7b2", "#59a14f", "#edc948", "#b07aa1", "#ff9da7", "#9c755f", "#bab0ac"];
+
+// レイアウト用の寸法（SVG座標系）
+const WIDTH = 1000;
+const HEIGHT = 600;
+const MARGIN = 40;
+const NODE_WIDTH = 16;
+const NODE_GAP = 16;
+
+// CSV の1行（"..." 内のカンマと "" のエスケープに対応）
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+export function parseSankey(diagram: string): SankeyModel {
+  const ids: string[] = [];
+  const rawLinks: { source: number; target: number; value: number }[] = [];
+  const nodeIndex = (id: string) => {
+    if (!ids.includes(id)) ids.push(id);
+    return ids.indexOf(id);
+  };
+
+  contentLines(diagram).forEach((line) => {
+    if (/^sankey(-beta)?\b/.test(line)) return;
+    const [source, target, value] = parseCsvLine(line);
+    const amount = parseFloat(value);
+    if (!source || !target || isNaN(amount) || amount <= 0) return;
+    rawLinks.push({ source: nodeIndex(source), target: nodeIndex(target), value: amount });
+  });
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const outgoing = ids.map((_, i) => rawLinks.filter((link) => link.source === i));
+  const incoming = ids.map((_, i) => rawLinks.filter((link) => link.target === i));
+  const values = ids.map((_, i) => Math.max(sum(outgoing[i].map((link) => link.value)), sum(incoming[i].map((link) => link.value))));
+
+  // 列: 流入元からの最長パス（循環はノード数で打ち切る）。流出先のないノードは右端に揃える
+  const layers = ids.map(() => 0);
+  for (let round = 0; round < ids.length; round++) {
+    let changed = false;
+    rawLinks.forEach((link) => {
+      if (link.source !== link.target && layers[link.target] < layers[link.source] + 1) {
+        layers[link.target] = layers[link.source] + 1;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+  const lastLayer = Math.max(0, ...layers);
+  ids.forEach((_, i) => {
+    if (outgoing[i].length === 0 && incoming[i].length > 0) layers[i] = lastLayer;
+  });
+
+  // 縦の倍率は一番混んでいる列に合わせる
+  const columns = Array.from({ length: lastLayer + 1 }, (_, layer) => ids.map((_, i) => i).filter((i) => layers[i] === layer));
+  const scale = Math.min(
+    ...columns
+      .filter((column) => column.length > 0)
+      .map((column) => (HEIGHT - MARGIN * 2 - (column.length - 1) * NODE_GAP) / sum(column.map((i) => values[i]))),
+  );
+
+  const nodes: SankeyNode[] = ids.map((id, i) => ({
+    id,
+    value: values[i],
+    color: NODE_COLORS[i % NODE_COLORS.length],
+    x: MARGIN + (layers[i] * (WIDTH - MARGIN * 2 - NODE_WIDTH)) / Math.max(1, lastLayer),
+    y: 0,
+    width: NODE_WIDTH,
+    height: values[i] * scale,
+    labelSide: layers[i] === lastLayer && lastLayer > 0 ? "left" : "right",
+  }));
+  columns.forEach((column) => {
+    const total = sum(column.map((i) => nodes[i].height)) + (column.length - 1) * NODE_GAP;
+    let y = (HEIGHT - total) / 2;
+    column.forEach((i) => {
+      nodes[i].y = y;
+      y += nodes[i].height + NODE_GAP;
+    });
+  });
+
+  // 帯はノードの中で相手の高さ順に積む（交差を減らす）
+  const centerY = (i: number) => nodes[i].y + nodes[i].height / 2;
+  const links: SankeyLink[] = rawLinks.map((link) => ({ ...link, sourceY: 0, targetY: 0, width: link.value * scale }));
+  ids.forEach((_, i) => {
+    let sourceOffset = nodes[i].y;
+    links
+      .filter((link) => link.source === i)
+      .sort((a, b) => centerY(a.target) - centerY(b.target))
+      .forEach((link) => {
+        link.sourceY = sourceOffset + link.width / 2;
+        sourceOffset += link.width;
+      });
+    let targetOffset = nodes[i].y;
+    links
+      .filter((link) => link.target === i)
+      .sort((a, b) => centerY(a.source) - centerY(b.source))
+      .forEach((link) => {
+        link.targetY = targetOffset + link.width / 2;
+        targetOffset += link.width;
+      });
+  });
+
+  // 列ごとに ノード → そこから出る流れ
+  const steps: RevealStep<"node" | "link">[] = [];
+  columns.forEach((column) => {
+    column.forEach((index) => steps.push({ kind: "node", index }));
+    links.forEach((link, index) => {
+      if (column.includes(link.source)) steps.push({ kind: "link", index });
+    });
+  });
+
+  return { type: "sankey", nodes, links, width: WIDTH, height: HEIGHT, steps };
+}
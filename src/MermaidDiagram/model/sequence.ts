@@ -0,0 +1,394 @@
+import {
+  RevealStep,
+  SequenceActivation,
+  SequenceActor,
+  SequenceActorKind,
+  SequenceArrow,
+  SequenceBlock,
+  SequenceBlockKind,
+  SequenceMessage,
+  SequenceModel,
+  SequenceNote,
+} from "./types";
+import { contentLines } from "./text";
+import { textWidth } from "./layered";
+
+const NAME_FONT_SIZE = 14;
+const TEXT_FONT_SIZE = 12;
+const MARGIN = 50;
+const TOP = 20;
+// 参加者の箱（actor は人型 + 名前）の高さ
+const HEAD_HEIGHT = 40;
+const MESSAGE_GAP = 60;
+// 自己メッセージのループの幅と高さ
+const SELF_LOOP_WIDTH = 40;
+const SELF_LOOP_HEIGHT = 30;
+// 枠の見出し・区切りの高さと、枠の内側の余白
+const BLOCK_HEADER = 30;
+const BLOCK_PADDING = 14;
+const NOTE_LINE_HEIGHT = 16;
+
+// participant A / actor B as 名前 / participant C@{ "type": "actor" } as 名前（IDにも空白を書ける）
+const DECLARATION = /^(create\s+)?(participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/i;
+// ID に使えない文字（矢印・区切りの手前で止める）
+const ID = String.raw`[^<>:;,+\-\s](?:[^<>:;,]*?[^<>:;,+\-\s])?`;
+// A->>B: text / A--x B / A-)B / A<<->>B / A->>+B（+ / - はアクティベーション）
+const MESSAGE = new RegExp(String.raw`^(${ID})\s*(<<--?>>|--?>>|--?>|--?x|--?\))\s*([+-]?)\s*(${ID})\s*(?::(.*))?$`);
+// Note right of A: text / Note over A,B: text
+const NOTE = /^note\s+(left of|right of|over)\s+([^:]+?)\s*:\s*(.*)$/i;
+// loop 条件 / alt 条件 / rect rgb(0, 0, 255) ...
+const BLOCK_START = /^(loop|alt|opt|par|critical|break|rect)(?:\s+(.*))?$/;
+// alt の else、par の and、critical の option
+const BLOCK_DIVIDER = /^(else|and|option)(?:\s+(.*))?$/;
+
+const ARROWS: Record<string, SequenceArrow> = { ">>": "arrow", ">": "none", x: "cross", ")": "open" };
+
+const splitLines = (text: string) => text.split(/<br\s*\/?>/i).map((line) => line.trim());
+
+// 参加者の宣言と、メッセージで初めて出てきた参加者を出てきた順に
+interface RawActor {
+  id: string;
+  name: string;
+  kind: SequenceActorKind;
+  createdBy?: number;
+  destroyedBy?: number;
+}
+
+// 横の位置は参加者の並びが決まってから付ける
+interface RawNote {
+  placement: "left of" | "right of" | "over";
+  actors: number[];
+  lines: string[];
+  width: number;
+  y: number;
+  height: number;
+}
+
+interface RawBlock extends Omit<SequenceBlock, "left" | "right" | "headerBottom"> {
+  // 中にあるメッセージとノート（入れ子の中も含む）
+  messages: number[];
+  notes: number[];
+  // 内側にある枠の段数（外側の枠ほど余白を広くする）
+  nested: number;
+}
+
+type SequenceStep = RevealStep<"actor" | "message" | "note" | "block">;
+
+export function parseSequence(diagram: string): SequenceModel {
+  const actors: RawActor[] = [];
+  const messages: SequenceMessage[] = [];
+  const notes: RawNote[] = [];
+  const blocks: RawBlock[] = [];
+  const activations: SequenceActivation[] = [];
+  const actorMap = new Map<string, number>(); // ID -> index
+
+  const register = (id: string) => {
+    const existing = actorMap.get(id);
+    if (existing !== undefined) return existing;
+    actorMap.set(id, actors.length);
+    actors.push({ id, name: id, kind: "participant" });
+    return actors.length - 1;
+  };
+
+  // create / destroy は次にその参加者が関わるメッセージで起きる
+  const pendingCreates = new Set<number>();
+  const pendingDestroys = new Set<number>();
+
+  // 縦は書かれた順に積み、ステップごとに届いた高さを記録する
+  let yPos = TOP + HEAD_HEIGHT + 40;
+  const contentSteps: SequenceStep[] = [];
+  const contentReach: number[] = [];
+  const pushStep = (step: SequenceStep, reach: number) => {
+    contentSteps.push(step);
+    contentReach.push(Math.max(reach, contentReach[contentReach.length - 1] ?? 0));
+  };
+
+  // box ... end も end で閉じるので、枠と一緒に積む
+  const openBlocks: (RawBlock | "box")[] = [];
+  const enclosing = () => openBlocks.filter((block): block is RawBlock => block !== "box");
+
+  // 参加者ごとに開いているアクティベーション（入れ子になる）
+  const openActivations = new Map<number, SequenceActivation[]>();
+  const lastMessageY = () => messages[messages.length - 1]?.y ?? yPos;
+  const activate = (actor: number, y: number) => {
+    const stack = openActivations.get(actor) ?? [];
+    const activation = { actor, top: y, bottom: y, level: stack.length };
+    stack.push(activation);
+    openActivations.set(actor, stack);
+    activations.push(activation);
+  };
+  const deactivate = (actor: number, y: number) => {
+    const activation = openActivations.get(actor)?.pop();
+    if (activation) activation.bottom = Math.max(y, activation.top + 10);
+  };
+
+  // autonumber [開始] [増分] / autonumber off
+  let nextNumber: number | undefined;
+  let numberStep = 1;
+
+  contentLines(diagram).forEach((line) => {
+    const statement = line.replace(/;\s*$/, "");
+
+    const autonumber = statement.match(/^autonumber(?:\s+(.*))?$/);
+    if (autonumber) {
+      const [start, step] = (autonumber[1] ?? "").split(/\s+/).map(Number);
+      nextNumber = autonumber[1] === "off" ? undefined : autonumber[1] && Number.isFinite(start) ? start : 1;
+      numberStep = Number.isFinite(step) ? step : 1;
+      return;
+    }
+
+    const blockStart = statement.match(BLOCK_START);
+    if (blockStart) {
+      const kind = blockStart[1] as SequenceBlockKind;
+      const text = blockStart[2]?.trim() ?? "";
+      const block: RawBlock = {
+        kind,
+        label: kind === "rect" ? "" : text,
+        color: kind === "rect" ? text : undefined,
+        top: yPos,
+        bottom: yPos,
+        dividers: [],
+        messages: [],
+        notes: [],
+        nested: 0,
+      };
+      openBlocks.push(block);
+      blocks.push(block);
+      pushStep({ kind: "block", index: blocks.length - 1 }, yPos + BLOCK_HEADER);
+      yPos += kind === "rect" ? BLOCK_PADDING : BLOCK_HEADER;
+      return;
+    }
+    const divider = statement.match(BLOCK_DIVIDER);
+    if (divider) {
+      const current = enclosing().pop();
+      if (current) {
+        current.dividers.push({ y: yPos, label: divider[2]?.trim() ?? "" });
+        yPos += BLOCK_HEADER;
+      }
+      return;
+    }
+    if (/^box\b/.test(statement)) {
+      openBlocks.push("box");
+      return;
+    }
+    if (statement === "end") {
+      const closed = openBlocks.pop();
+      if (closed && closed !== "box") {
+        closed.bottom = yPos - 10;
+        yPos += 10;
+        const parent = enclosing().pop();
+        if (parent) parent.nested = Math.max(parent.nested, closed.nested + 1);
+        // 枠が閉じたところまでを、直前のステップで届く高さにする
+        contentReach[contentReach.length - 1] = Math.max(contentReach[contentReach.length - 1], closed.bottom);
+      }
+      return;
+    }
+
+    const note = statement.match(NOTE);
+    if (note) {
+      const lines = splitLines(note[3]);
+      const height = lines.length * NOTE_LINE_HEIGHT + 14;
+      notes.push({
+        placement: note[1].toLowerCase().replace(/\s+/, " ") as RawNote["placement"],
+        actors: note[2].split(",").map((id) => register(id.trim())),
+        lines,
+        width: Math.max(100, ...lines.map((text) => textWidth(text, TEXT_FONT_SIZE) + 20)),
+        y: yPos,
+        height,
+      });
+      enclosing().forEach((block) => block.notes.push(notes.length - 1));
+      pushStep({ kind: "note", index: notes.length - 1 }, yPos + height);
+      yPos += height + 20;
+      return;
+    }
+
+    // activate / deactivate は直前のメッセージの高さで
+    const activation = statement.match(/^(activate|deactivate)\s+(.+)$/);
+    if (activation) {
+      const actor = register(activation[2].trim());
+      if (activation[1] === "activate") activate(actor, lastMessageY());
+      else deactivate(actor, lastMessageY());
+      return;
+    }
+
+    const declaration = statement.match(DECLARATION);
+    if (declaration) {
+      const config = declaration[3].match(/@\{([\s\S]*)\}\s*$/);
+      const id = declaration[3].replace(/@\{[\s\S]*\}\s*$/, "").trim();
+      const typed = config?.[1].match(/["']?type["']?\s*:\s*["']?(\w+)/)?.[1];
+      const kind: SequenceActorKind = declaration[2].toLowerCase() === "actor" || typed === "actor" ? "actor" : "participant";
+      const index = register(id);
+      // 先にメッセージで使われていても、宣言の名前と形にする
+      actors[index].name = declaration[4]?.trim() || id;
+      actors[index].kind = kind;
+      if (declaration[1]) pendingCreates.add(index);
+      return;
+    }
+    const destroy = statement.match(/^destroy\s+(.+)$/i);
+    if (destroy) {
+      pendingDestroys.add(register(destroy[1].trim()));
+      return;
+    }
+
+    const match = statement.match(MESSAGE);
+    if (!match) return;
+    const from = register(match[1]);
+    const to = register(match[4]);
+    const arrow = match[2];
+    const messageIndex = messages.length;
+    let created: number | undefined;
+    [to, from].forEach((index) => {
+      if (pendingCreates.delete(index)) {
+        actors[index].createdBy = messageIndex;
+        created = index;
+      }
+      if (pendingDestroys.delete(index)) actors[index].destroyedBy = messageIndex;
+    });
+
+    // 作られる参加者の箱はメッセージの高さに置くので、その分を空ける
+    if (created !== undefined) yPos += HEAD_HEIGHT / 2;
+    const y = yPos;
+    messages.push({
+      from,
+      to,
+      text: match[5]?.trim() ?? "",
+      y,
+      type: arrow.includes("--") ? "dashed" : "solid",
+      arrow: ARROWS[arrow.replace(/^(<<)?-+/, "")] ?? "arrow",
+      bidirectional: arrow.startsWith("<<"),
+      number: nextNumber,
+    });
+    if (nextNumber !== undefined) nextNumber += numberStep;
+    enclosing().forEach((block) => block.messages.push(messageIndex));
+
+    // + は受け手を、- は送り手を
+    if (match[3] === "+") activate(to, y);
+    if (match[3] === "-") deactivate(from, y);
+
+    if (created !== undefined) pushStep({ kind: "actor", index: created }, y);
+    pushStep({ kind: "message", index: messageIndex }, y + (from === to ? SELF_LOOP_HEIGHT : 0));
+    yPos += MESSAGE_GAP + (from === to ? SELF_LOOP_HEIGHT : 0) + (created !== undefined ? HEAD_HEIGHT / 2 : 0);
+  });
+
+  // end / deactivate の書き忘れは末尾で閉じる
+  enclosing().forEach((block) => {
+    block.bottom = yPos - 10;
+  });
+  openActivations.forEach((stack) =>
+    stack.forEach((activation) => {
+      activation.bottom = Math.max(lastMessageY() + 20, activation.top + 10);
+    }),
+  );
+
+  // 横: 箱の幅と、隣り合う参加者の間に書くメッセージ・ノートが収まる間隔にする
+  const widths = actors.map((actor) => Math.max(100, textWidth(actor.name, NAME_FONT_SIZE) + 24));
+  const gaps = actors.slice(1).map((_, i) => Math.max(180, (widths[i] + widths[i + 1]) / 2 + 40));
+  // 最初の参加者の左・最後の参加者の右にはみ出す分
+  let leftRoom = 0;
+  let rightRoom = 0;
+  const needRight = (actor: number, need: number) => {
+    if (actor < gaps.length) gaps[actor] = Math.max(gaps[actor], need + widths[actor + 1] / 2);
+    else rightRoom = Math.max(rightRoom, need);
+  };
+  const needLeft = (actor: number, need: number) => {
+    if (actor > 0) gaps[actor - 1] = Math.max(gaps[actor - 1], need + widths[actor - 1] / 2);
+    else leftRoom = Math.max(leftRoom, need);
+  };
+  // 離れた参加者どうしにまたがるものは、間の間隔で分け合う
+  const needBetween = (a: number, b: number, need: number) => {
+    const left = Math.min(a, b);
+    const span = Math.abs(b - a);
+    for (let i = left; i < left + span; i++) gaps[i] = Math.max(gaps[i], need / span);
+  };
+  messages.forEach((message) => {
+    const width = textWidth(message.text, TEXT_FONT_SIZE) + (message.number !== undefined ? 24 : 0);
+    if (message.from === message.to) needRight(message.from, SELF_LOOP_WIDTH + width + 20);
+    else needBetween(message.from, message.to, width + 40);
+  });
+  notes.forEach((note) => {
+    const first = Math.min(...note.actors);
+    const last = Math.max(...note.actors);
+    if (note.placement === "right of") needRight(first, note.width + 20);
+    else if (note.placement === "left of") needLeft(first, note.width + 20);
+    else if (first === last) {
+      needRight(first, note.width / 2 + 10);
+      needLeft(first, note.width / 2 + 10);
+    } else needBetween(first, last, note.width - 60);
+  });
+
+  let xPos = MARGIN + Math.max((widths[0] ?? 0) / 2, leftRoom);
+  const placed: SequenceActor[] = actors.map((actor, i) => {
+    const x = xPos;
+    xPos += gaps[i] ?? 0;
+    const top = actor.createdBy !== undefined ? messages[actor.createdBy].y - HEAD_HEIGHT / 2 : TOP;
+    const lifelineTop = top + (actor.kind === "actor" ? HEAD_HEIGHT + 8 : HEAD_HEIGHT);
+    return { ...actor, x, width: widths[i], top, height: HEAD_HEIGHT, lifelineTop };
+  });
+
+  const placedNotes: SequenceNote[] = notes.map((note) => {
+    const xs = note.actors.map((index) => placed[index].x);
+    const left = Math.min(...xs);
+    const right = Math.max(...xs);
+    const box = { lines: note.lines, y: note.y, height: note.height };
+    if (note.placement === "right of") return { ...box, x: left + 10, width: note.width };
+    if (note.placement === "left of") return { ...box, x: left - 10 - note.width, width: note.width };
+    // over は参加者の上に中央揃え（2人にまたがるときは両端より少し広く）
+    const width = xs.length > 1 ? Math.max(note.width, right - left + 60) : note.width;
+    return { ...box, x: (left + right) / 2 - width / 2, width };
+  });
+
+  // 枠は中のメッセージ・ノートを囲む（入れ子の外側ほど広く）
+  const placedBlocks: SequenceBlock[] = blocks.map(({ messages: inner, notes: innerNotes, nested, ...block }) => {
+    const extents: [number, number][] = [
+      ...inner.map((index): [number, number] => {
+        const message = messages[index];
+        const fromX = placed[message.from].x;
+        const toX = placed[message.to].x;
+        return message.from === message.to
+          ? [fromX, fromX + SELF_LOOP_WIDTH + textWidth(message.text, TEXT_FONT_SIZE) + 10]
+          : [Math.min(fromX, toX), Math.max(fromX, toX)];
+      }),
+      ...innerNotes.map((index): [number, number] => [placedNotes[index].x, placedNotes[index].x + placedNotes[index].width]),
+    ];
+    if (extents.length === 0) extents.push([placed[0]?.x ?? MARGIN, placed[0]?.x ?? MARGIN]);
+    const padding = BLOCK_PADDING + nested * 10;
+    return {
+      ...block,
+      left: Math.min(...extents.map(([left]) => left)) - padding,
+      right: Math.max(...extents.map(([, right]) => right)) + padding,
+      headerBottom: block.top + BLOCK_HEADER,
+    };
+  });
+
+  const placedMessages: SequenceMessage[] = messages.map((message) =>
+    message.from === message.to
+      ? { ...message, loop: { right: placed[message.from].x + SELF_LOOP_WIDTH, bottom: message.y + SELF_LOOP_HEIGHT } }
+      : message,
+  );
+
+  const last = placed[placed.length - 1];
+  const width = Math.max(
+    last ? last.x + last.width / 2 + rightRoom + MARGIN : MARGIN * 2,
+    ...placedBlocks.map((block) => block.right + MARGIN / 2),
+    ...placedNotes.map((note) => note.x + note.width + MARGIN / 2),
+  );
+
+  // 参加者 → メッセージ・ノート・枠を書かれた順に（create された参加者は作られるメッセージの直前に）
+  const actorSteps: SequenceStep[] = placed
+    .map((actor, index) => ({ actor, index }))
+    .filter(({ actor }) => actor.createdBy === undefined)
+    .map(({ index }) => ({ kind: "actor" as const, index }));
+
+  return {
+    type: "sequence",
+    actors: placed,
+    messages: placedMessages,
+    blocks: placedBlocks,
+    notes: placedNotes,
+    activations,
+    width,
+    height: yPos + 20,
+    steps: [...actorSteps, ...contentSteps],
+    reach: [...actorSteps.map(() => 0), ...contentReach],
+  };
+}
@@ -0,0 +1,116 @@
+import { RevealStep, StateModel, StateNode, StateTransition } from "./types";
+import { contentLines } from "./text";
+
+export function parseState(diagram: string): StateModel {
+  const nodes: StateNode[] = [];
+  const transitions: StateTransition[] = [];
+  const stateSet = new Set<string>();
+
+  // Step 1: 全ての状態と遷移を収集
+  contentLines(diagram).forEach((trimmed) => {
+    // [*] --> State (開始状態)
+    const startMatch = trimmed.match(/\[\*\]\s*-->\s*(\w+)/);
+    if (startMatch) {
+      stateSet.add("[*]start");
+      stateSet.add(startMatch[1]);
+      transitions.push({ from: "[*]start", to: startMatch[1] });
+      return;
+    }
+
+    // State --> [*] (終了状態)
+    const endMatch = trimmed.match(/(\w+)\s*-->\s*\[\*\]$/);
+    if (endMatch) {
+      stateSet.add(endMatch[1]);
+      stateSet.add("[*]end");
+      transitions.push({ from: endMatch[1], to: "[*]end" });
+      return;
+    }
+
+    // State --> OtherState : label
+    const transMatch = trimmed.match(/(\w+)\s*-->\s*(\w+)(?:\s*:\s*(.+))?/);
+    if (transMatch) {
+      stateSet.add(transMatch[1]);
+      stateSet.add(transMatch[2]);
+      transitions.push({ from: transMatch[1], to: transMatch[2], label: transMatch[3]?.trim() });
+    }
+  });
+
+  // Step 2: 動的レイアウト（トポロジカルソートベース）
+  // 各状態の階層レベルを計算（開始状態からの距離）
+  const levels = new Map<string, number>();
+  const inDegree = new Map<string, number>();
+  const adjacency = new Map<string, string[]>();
+
+  stateSet.forEach((state) => {
+    inDegree.set(state, 0);
+    adjacency.set(state, []);
+  });
+
+  transitions.forEach((t) => {
+    inDegree.set(t.to, (inDegree.get(t.to) || 0) + 1);
+    adjacency.get(t.from)?.push(t.to);
+  });
+
+  // BFSで階層レベルを計算
+  const queue: string[] = [];
+  stateSet.forEach((state) => {
+    if (inDegree.get(state) === 0 || state === "[*]start") {
+      queue.push(state);
+      levels.set(state, 0);
+    }
+  });
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const currentLevel = levels.get(current) || 0;
+    (adjacency.get(current) || []).forEach((neighbor) => {
+      if (!levels.has(neighbor)) {
+        levels.set(neighbor, currentLevel + 1);
+        queue.push(neighbor);
+      }
+    });
+  }
+
+  // 循環参照で残った状態にもレベルを設定
+  stateSet.forEach((state) => {
+    if (!levels.has(state)) {
+      levels.set(state, 3); // デフォルトレベル
+    }
+  });
+
+  // 階層ごとに状態をグループ化
+  const levelGroups = new Map<number, string[]>();
+  levels.forEach((level, state) => {
+    if (!levelGroups.has(level)) levelGroups.set(level, []);
+    levelGroups.get(level)!.push(state);
+  });
+
+  // 位置を計算
+  const xSpacing = 180;
+  const ySpacing = 120;
+  const startX = 100;
+  const centerY = 300;
+
+  stateSet.forEach((state) => {
+    const level = levels.get(state) || 0;
+    const group = levelGroups.get(level) || [state];
+    const indexInGroup = group.indexOf(state);
+
+    nodes.push({
+      id: state,
+      label: state.startsWith("[*]") ? "" : state,
+      x: startX + level * xSpacing,
+      y: centerY + (indexInGroup - (group.length - 1) / 2) * ySpacing,
+      isStart: state === "[*]start",
+      isEnd: state === "[*]end",
+    });
+  });
+
+  // 状態 → 遷移の順
+  const steps: RevealStep<"state" | "transition">[] = [
+    ...nodes.map((_, index) => ({ kind: "state" as const, index })),
+    ...transitions.map((_, index) => ({ kind: "transition" as const, index })),
+  ];
+
+  return { type: "state", nodes, transitions, steps };
+}
@@ -0,0 +1,32 @@
+// Mermaid定義テキストの共通処理
+
+// 先頭のフロントマター（--- ... ---）を除去
+export function stripFrontmatter(diagram: string): string {
+  const match = diagram.match(/^\s*---\r?\n[\s\S]*?\r?\n---\s*(\r?\n|$)/);
+  return match ? diagram.slice(match[0].length) : diagram;
+}
+
+// 行ごとに分割（前後の空白・空行・%% コメント・%%{init}%% ディレクティブを除去）
+export function contentLines(diagram: string): string[] {
+  return stripFrontmatter(diagram)
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("%%"));
+}
+
+// インデントを保ったまま行を取得（mindmap などインデントに意味がある図用）
+export function rawLines(diagram: string): string[] {
+  return stripFrontmatter(diagram)
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.trim().startsWith("%%"));
+}
+
+// 図の内容から決まる短いハッシュ（FNV-1a）。要素IDを実行ごとに変えないために使う
+export function diagramHash(diagram: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < diagram.length; i++) {
+    hash ^= diagram.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36);
+}
@@ -0,0 +1,115 @@
+import { RevealStep, TimelineEvent, TimelineModel, TimelinePeriod, TimelineSection } from "./types";
+import { contentLines } from "./text";
+import { wrapText } from "./layered";
+
+// 色のリスト（Tableau 10）
+const TIMELINE_COLORS = ["#4e79a7", "#f28e2b", "#e15759", "#76b7b2", "#59a14f", "#edc948", "#b07aa1", "#ff9da7", "#9c755f", "#bab0ac"];
+
+// レイアウト用の寸法（SVG座標系）
+const MARGIN = 40;
+const COLUMN_WIDTH = 170;
+const COLUMN_GAP = 24;
+const PERIOD_FONT_SIZE = 15;
+const EVENT_FONT_SIZE = 13;
+const LINE_HEIGHT = 19;
+const PADDING = 10;
+const SECTION_HEIGHT = 40;
+const MIN_PERIOD_HEIGHT = 50;
+// 期間の箱からイベントまで（間に時間軸を引く）
+const AXIS_GAP = 48;
+const EVENT_GAP = 12;
+
+const boxHeight = (lines: string[]) => lines.length * LINE_HEIGHT + PADDING * 2;
+
+export function parseTimeline(diagram: string): TimelineModel {
+  let title: string | undefined;
+  const sectionNames: string[] = [];
+  const rawPeriods: { label: string; section: number; events: string[] }[] = [];
+
+  contentLines(diagram).forEach((line) => {
+    if (/^(timeline|accTitle|accDescr)\b/.test(line)) return;
+
+    const titleMatch = line.match(/^title\s+(.+)$/);
+    if (titleMatch) {
+      title = titleMatch[1].trim();
+      return;
+    }
+
+    const sectionMatch = line.match(/^section\s+(.+)$/);
+    if (sectionMatch) {
+      sectionNames.push(sectionMatch[1].trim());
+      return;
+    }
+
+    // 期間 : イベント : イベント / 前の期間に続く : イベント
+    const [label, ...events] = line.split(":").map((part) => part.trim());
+    const texts = events.filter(Boolean);
+    if (!label && rawPeriods.length > 0) {
+      rawPeriods[rawPeriods.length - 1].events.push(...texts);
+      return;
+    }
+    if (label) rawPeriods.push({ label, section: sectionNames.length - 1, events: texts });
+  });
+
+  // セクションがあればセクションごと、なければ期間ごとに色を変える
+  const colorOf = (period: { section: number }, index: number) =>
+    TIMELINE_COLORS[(period.section >= 0 ? period.section : index) % TIMELINE_COLORS.length];
+  const columnX = (index: number) => MARGIN + index * (COLUMN_WIDTH + COLUMN_GAP);
+
+  const top = title ? MARGIN + 50 : MARGIN;
+  const sectionY = top;
+  const periodY = sectionNames.length > 0 ? top + SECTION_HEIGHT + 16 : top;
+
+  const periods: TimelinePeriod[] = rawPeriods.map((raw, index) => ({
+    lines: wrapText(raw.label, PERIOD_FONT_SIZE, COLUMN_WIDTH - PADDING * 2),
+    section: raw.section,
+    color: colorOf(raw, index),
+    x: columnX(index),
+  }));
+  const periodHeight = Math.max(MIN_PERIOD_HEIGHT, ...periods.map((period) => boxHeight(period.lines)));
+
+  const events: TimelineEvent[] = [];
+  let bottom = periodY + periodHeight;
+  rawPeriods.forEach((raw, period) => {
+    let y = periodY + periodHeight + AXIS_GAP;
+    raw.events.forEach((text) => {
+      const lines = wrapText(text, EVENT_FONT_SIZE, COLUMN_WIDTH - PADDING * 2);
+      events.push({ period, lines, y, height: boxHeight(lines) });
+      y += boxHeight(lines) + EVENT_GAP;
+      bottom = Math.max(bottom, y - EVENT_GAP);
+    });
+  });
+
+  const sections: TimelineSection[] = sectionNames.map((name, index) => {
+    const columns = periods.map((period, i) => (period.section === index ? i : -1)).filter((i) => i >= 0);
+    const x = columns.length > 0 ? columnX(columns[0]) : 0;
+    const width = columns.length > 0 ? columnX(columns[columns.length - 1]) + COLUMN_WIDTH - x : 0;
+    return { name, color: TIMELINE_COLORS[index % TIMELINE_COLORS.length], x, width };
+  });
+
+  // 期間 → その期間のイベント（上から）
+  const steps: RevealStep<"period" | "event">[] = [];
+  periods.forEach((_, period) => {
+    steps.push({ kind: "period", index: period });
+    events.forEach((event, index) => {
+      if (event.period === period) steps.push({ kind: "event", index });
+    });
+  });
+
+  return {
+    type: "timeline",
+    title,
+    sections,
+    periods,
+    events,
+    columnWidth: COLUMN_WIDTH,
+    sectionY,
+    periodY,
+    periodHeight,
+    axisY: periodY + periodHeight + AXIS_GAP / 2,
+    lineHeight: LINE_HEIGHT,
+    width: Math.max(columnX(Math.max(periods.length, 1)) - COLUMN_GAP + MARGIN, 400),
+    height: bottom + MARGIN,
+    steps,
+  };
+}
@@ -0,0 +1,64 @@
+// 動画の尺の計算（コンポジションとCLIで共通）
+
+export const DEFAULT_FPS = 30;
+export const DEFAULT_FRAMES_PER_ELEMENT = 20;
+export const DEFAULT_INTRO_SECONDS = 0.5;
+export const DEFAULT_HOLD_SECONDS = 1.5;
+export const DEFAULT_OUTRO_SECONDS = 0.5;
+// 複数の図をつなぐときのクロスフェード
+export const DEFAULT_TRANSITION_SECONDS = 0.5;
+
+export interface TimingOptions {
+  fps: number;
+  framesPerElement?: number;
+  introSeconds?: number;
+  holdSeconds?: number;
+  outroSeconds?: number;
+  // 指定時は尺を固定（各区間はそのまま、ホールドで調整）
+  durationInSeconds?: number;
+}
+
+// イントロ → 要素の表示 → ホールド → アウトロ
+export interface Timeline {
+  introFrames: number;
+  revealFrames: number;
+  holdFrames: number;
+  outroFrames: number;
+  durationInFrames: number;
+}
+
+export function computeTimeline(stepCount: number, options: TimingOptions): Timeline {
+  const {
+    fps,
+    framesPerElement = DEFAULT_FRAMES_PER_ELEMENT,
+    introSeconds = DEFAULT_INTRO_SECONDS,
+    holdSeconds = DEFAULT_HOLD_SECONDS,
+    outroSeconds = DEFAULT_OUTRO_SECONDS,
+    durationInSeconds,
+  } = options;
+
+  const introFrames = Math.round(introSeconds * fps);
+  const revealFrames = stepCount * framesPerElement;
+  const outroFrames = Math.round(outroSeconds * fps);
+  let holdFrames = Math.round(holdSeconds * fps);
+
+  if (durationInSeconds !== undefined) {
+    const fixed = Math.round(durationInSeconds * fps);
+    holdFrames = Math.max(0, fixed - introFrames - revealFrames - outroFrames);
+    return {
+      introFrames,
+      revealFrames,
+      holdFrames,
+      outroFrames,
+      durationInFrames: Math.max(1, fixed),
+    };
+  }
+
+  return {
+    introFrames,
+    revealFrames,
+    holdFrames,
+    outroFrames,
+    durationInFrames: Math.max(1, introFrames + revealFrames + holdFrames + outroFrames),
+  };
+}
@@ -0,0 +1,679 @@
+// 図の中間表現（IR）
+// CLI（Node）とレンダラー（ブラウザ）の両方から使うため、DOMに依存しないこと
+
+export type DiagramType =
+  | "flowchart"
+  | "sequence"
+  | "pie"
+  | "state"
+  | "mindmap"
+  | "class"
+  | "er"
+  | "gantt"
+  | "gitGraph"
+  | "timeline"
+  | "journey"
+  | "xychart"
+  | "quadrant"
+  | "sankey"
+  | "unknown";
+
+// アニメーションの1ステップ（kindごとの配列内インデックスを指す）
+export interface RevealStep<K extends string = string> {
+  kind: K;
+  index: number;
+}
+
+// ========== Flowchart ==========
+
+// 括弧の記法と @{ shape: ... } の形（別名は parseFlowchart で正規化する）
+export type NodeShape =
+  | "rect"
+  | "rounded"
+  | "stadium"
+  | "subroutine"
+  | "cylinder"
+  | "horizontalCylinder"
+  | "circle"
+  | "doubleCircle"
+  | "smallCircle"
+  | "filledCircle"
+  | "framedCircle"
+  | "asymmetric"
+  | "diamond"
+  | "hexagon"
+  | "parallelogram"
+  | "parallelogramAlt"
+  | "trapezoid"
+  | "trapezoidAlt"
+  | "triangle"
+  | "flippedTriangle"
+  | "document"
+  | "card"
+  | "text";
+
+// 流れる向き（TD と v は TB、> は LR、< は RL、^ は BT として扱う）
+export type FlowDirection = "TB" | "BT" | "LR" | "RL";
+
+// classDef / class / ::: / style / linkStyle で指定された見た目（描画に使うものだけ）
+export interface FlowStyle {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  strokeDasharray?: string;
+  // 文字の色
+  color?: string;
+}
+
+export interface FlowNode {
+  id: string;
+  label: string;
+  shape: NodeShape;
+  // 直接属するサブグラフ
+  subgraph?: string;
+  style?: FlowStyle;
+}
+
+// subgraph ... end（入れ子は parent でたどる）
+export interface FlowSubgraph {
+  id: string;
+  label: string;
+  parent?: string;
+  // 中に書かれた direction（なければ外側に従う）
+  direction?: FlowDirection;
+  style?: FlowStyle;
+}
+
+// 線の種類（--- / -.- / === / ~~~）と端の記号（> o x、なしは開いた線）
+export type EdgeStroke = "normal" | "dotted" | "thick" | "invisible";
+export type EdgeEnd = "none" | "arrow" | "circle" | "cross";
+
+export interface FlowEdge {
+  from: string;
+  to: string;
+  label?: string;
+  // e1@--> で付けたID（Mermaidの線の data-id になる）
+  id?: string;
+  stroke: EdgeStroke;
+  start: EdgeEnd;
+  end: EdgeEnd;
+  // 流れに逆らって戻る線（循環を閉じる線・自己ループ）
+  loopback?: boolean;
+  style?: FlowStyle;
+}
+
+export interface FlowchartModel {
+  type: "flowchart";
+  direction: FlowDirection;
+  // 流れの向きに沿った段（ランク）順、同じ段は定義順
+  nodes: FlowNode[];
+  // ノード順にソート済み（端がサブグラフのこともある）
+  edges: FlowEdge[];
+  // 定義順（親が子より先）
+  subgraphs: FlowSubgraph[];
+  steps: RevealStep<"subgraph" | "node" | "edge">[];
+}
+
+// ========== Sequence ==========
+
+// participant は箱、actor は人型
+export type SequenceActorKind = "participant" | "actor";
+
+export interface SequenceActor {
+  id: string;
+  name: string;
+  kind: SequenceActorKind;
+  x: number;
+  // 箱の幅（名前の長さに合わせる）
+  width: number;
+  // 頭の上端（create で途中から現れる参加者は、作られたメッセージの高さ）
+  top: number;
+  // 箱の高さと、ライフラインの始まり（actor は人型の下の名前より下から）
+  height: number;
+  lifelineTop: number;
+  // create されたときのメッセージ（model.messages のインデックス）
+  createdBy?: number;
+  // destroy されたときのメッセージ。ライフラインはそこで終わる
+  destroyedBy?: number;
+}
+
+// 線の端: ->> は矢印、-x はバツ、-) は開いた矢印（非同期）、-> は端なし
+export type SequenceArrow = "none" | "arrow" | "cross" | "open";
+
+export interface SequenceMessage {
+  from: number;
+  to: number;
+  text: string;
+  y: number;
+  type: "solid" | "dashed";
+  arrow: SequenceArrow;
+  // <<->> / <<-->> は両端に矢印
+  bidirectional: boolean;
+  // autonumber の番号
+  number?: number;
+  // 自己メッセージのループの右端と、戻ってくる高さ
+  loop?: { right: number; bottom: number };
+}
+
+// loop / alt / opt / par / critical / break は枠、rect は背景の色
+export type SequenceBlockKind = "loop" | "alt" | "opt" | "par" | "critical" | "break" | "rect";
+
+export interface SequenceBlock {
+  kind: SequenceBlockKind;
+  label: string;
+  // rect の色（rgb(...) など）
+  color?: string;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  // 見出しの下端（枠はここから再生位置に合わせて伸びる）
+  headerBottom: number;
+  // else / and / option の区切り
+  dividers: { y: number; label: string }[];
+}
+
+// Note left of / right of / over（over A,B は2人にまたがる）
+export interface SequenceNote {
+  lines: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// activate / + で始まり deactivate / - で終わる、ライフライン上の帯
+export interface SequenceActivation {
+  actor: number;
+  top: number;
+  bottom: number;
+  // 重なったアクティベーションは右にずらす
+  level: number;
+}
+
+export interface SequenceModel {
+  type: "sequence";
+  actors: SequenceActor[];
+  messages: SequenceMessage[];
+  // 外側の枠が先（rect の背景も含む）
+  blocks: SequenceBlock[];
+  notes: SequenceNote[];
+  activations: SequenceActivation[];
+  width: number;
+  height: number;
+  steps: RevealStep<"actor" | "message" | "note" | "block">[];
+  // 各ステップまで表示したときに届く高さ（枠とアクティベーションはここまで伸びる）
+  reach: number[];
+}
+
+// ========== Pie ==========
+
+export interface PieSegment {
+  label: string;
+  value: number;
+  color: string;
+  startAngle: number;
+  endAngle: number;
+}
+
+export interface PieModel {
+  type: "pie";
+  title: string;
+  segments: PieSegment[];
+  steps: RevealStep<"title" | "segment">[];
+}
+
+// ========== State ==========
+
+export interface StateNode {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  isStart?: boolean;
+  isEnd?: boolean;
+}
+
+export interface StateTransition {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+export interface StateModel {
+  type: "state";
+  nodes: StateNode[];
+  transitions: StateTransition[];
+  steps: RevealStep<"state" | "transition">[];
+}
+
+// ========== Mindmap ==========
+
+export interface MindmapNode {
+  id: string;
+  label: string;
+  level: number;
+  x: number;
+  y: number;
+  parentId?: string;
+  isRoot?: boolean;
+}
+
+export interface MindmapModel {
+  type: "mindmap";
+  nodes: MindmapNode[];
+  connections: { from: string; to: string }[];
+  steps: RevealStep<"node">[];
+}
+
+// ========== Class ==========
+
+export interface ClassMember {
+  // model.classes のインデックス
+  classIndex: number;
+  section: "attribute" | "method";
+  text: string;
+  // クラスボックス上端からの行の中心
+  offsetY: number;
+}
+
+export interface ClassNode {
+  id: string;
+  label: string;
+  // <<interface>> など
+  annotation?: string;
+  x: number;
+  y: number;
+  width: number;
+  // 名前区画の高さ（属性区画はその下から）
+  headerHeight: number;
+  // 属性区画の高さ（操作区画はその下から）
+  attributesHeight: number;
+  height: number;
+}
+
+// UML の関連端の記号
+// () はロリポップ（インターフェースの提供側）
+export type ClassRelationEnd = "none" | "arrow" | "triangle" | "filledDiamond" | "hollowDiamond" | "lollipop";
+
+export interface ClassRelation {
+  from: string;
+  to: string;
+  fromEnd: ClassRelationEnd;
+  toEnd: ClassRelationEnd;
+  line: "solid" | "dashed";
+  fromCardinality?: string;
+  toCardinality?: string;
+  label?: string;
+}
+
+export interface ClassModel {
+  type: "class";
+  classes: ClassNode[];
+  members: ClassMember[];
+  relations: ClassRelation[];
+  width: number;
+  height: number;
+  steps: RevealStep<"class" | "member" | "relation">[];
+}
+
+// ========== ER ==========
+
+export interface ErAttribute {
+  type: string;
+  name: string;
+  // PK / FK / UK
+  keys: string[];
+  comment?: string;
+}
+
+export interface ErEntity {
+  id: string;
+  label: string;
+  attributes: ErAttribute[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  headerHeight: number;
+  rowHeight: number;
+  // 型・名前・キー列の左端（ボックス左端からの距離）
+  columns: { type: number; name: number; keys: number; comment: number };
+}
+
+export type ErCardinality = "zeroOrOne" | "exactlyOne" | "zeroOrMore" | "oneOrMore";
+
+export interface ErRelationship {
+  from: string;
+  to: string;
+  fromCardinality: ErCardinality;
+  toCardinality: ErCardinality;
+  // 識別関係は実線、非識別関係は破線
+  identifying: boolean;
+  label?: string;
+}
+
+export interface ErModel {
+  type: "er";
+  // 参照される側（外部キーの参照先）が先
+  entities: ErEntity[];
+  relationships: ErRelationship[];
+  width: number;
+  height: number;
+  steps: RevealStep<"entity" | "relationship">[];
+}
+
+// ========== Gantt ==========
+
+// 時刻はすべて UTC のエポックミリ秒
+
+export interface GanttTask {
+  id: string;
+  label: string;
+  // model.sections のインデックス
+  section: number;
+  start: number;
+  end: number;
+  // after で参照したタスクの id
+  dependsOn: string[];
+  milestone: boolean;
+  crit: boolean;
+  done: boolean;
+  active: boolean;
+}
+
+export interface GanttTick {
+  time: number;
+  label: string;
+}
+
+export interface GanttModel {
+  type: "gantt";
+  title?: string;
+  sections: string[];
+  // 定義順（行の並び）
+  tasks: GanttTask[];
+  // 時間軸の範囲
+  start: number;
+  end: number;
+  ticks: GanttTick[];
+  // 時間軸 → 開始の早い順のタスク（再生ヘッドが通過する順）
+  steps: RevealStep<"axis" | "task">[];
+}
+
+// ========== GitGraph ==========
+
+export interface GitPoint {
+  x: number;
+  y: number;
+}
+
+export interface GitBranch {
+  name: string;
+  color: string;
+  // 分岐した位置から図の端までのレーン
+  from: GitPoint;
+  to: GitPoint;
+  // ブランチ名ラベルの中心
+  label: GitPoint;
+}
+
+export type GitCommitType = "normal" | "reverse" | "highlight" | "merge" | "cherryPick";
+
+export interface GitCommit {
+  id: string;
+  // model.branches のインデックス
+  branch: number;
+  // 親コミットのインデックス（マージは [マージ先の先頭, マージ元の先頭]）
+  parents: number[];
+  type: GitCommitType;
+  tag?: string;
+  x: number;
+  y: number;
+}
+
+export interface GitGraphModel {
+  type: "gitGraph";
+  // LR はブランチが行、TB / BT は列
+  orientation: "LR" | "TB" | "BT";
+  branches: GitBranch[];
+  commits: GitCommit[];
+  width: number;
+  height: number;
+  // ソースのコマンド順
+  steps: RevealStep<"branch" | "commit">[];
+}
+
+// ========== Timeline ==========
+
+export interface TimelineSection {
+  name: string;
+  color: string;
+  x: number;
+  width: number;
+}
+
+export interface TimelinePeriod {
+  // 折り返し済みの行
+  lines: string[];
+  // model.sections のインデックス（セクションなしは -1）
+  section: number;
+  color: string;
+  x: number;
+}
+
+export interface TimelineEvent {
+  // model.periods のインデックス
+  period: number;
+  lines: string[];
+  y: number;
+  height: number;
+}
+
+export interface TimelineModel {
+  type: "timeline";
+  title?: string;
+  sections: TimelineSection[];
+  periods: TimelinePeriod[];
+  events: TimelineEvent[];
+  // 期間・イベントの箱の幅（共通）
+  columnWidth: number;
+  sectionY: number;
+  periodY: number;
+  periodHeight: number;
+  // 期間とイベントの間の時間軸
+  axisY: number;
+  // 折り返した行の間隔
+  lineHeight: number;
+  width: number;
+  height: number;
+  // 期間 → その期間のイベント、を左から
+  steps: RevealStep<"period" | "event">[];
+}
+
+// ========== Journey ==========
+
+export interface JourneyActor {
+  name: string;
+  color: string;
+  // 凡例の位置
+  x: number;
+  y: number;
+}
+
+export interface JourneySection {
+  name: string;
+  color: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface JourneyTask {
+  lines: string[];
+  // 満足度（0〜5）
+  score: number;
+  // model.sections のインデックス
+  section: number;
+  // model.actors のインデックス
+  actors: number[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface JourneyModel {
+  type: "journey";
+  title?: string;
+  actors: JourneyActor[];
+  sections: JourneySection[];
+  tasks: JourneyTask[];
+  // 満足度 5 と 0 の顔の y 座標
+  scoreTop: number;
+  scoreBottom: number;
+  // 折り返した行の間隔
+  lineHeight: number;
+  width: number;
+  height: number;
+  // セクション → そのタスク、を定義順に
+  steps: RevealStep<"section" | "task">[];
+}
+
+// ========== XY Chart ==========
+
+export interface ChartRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 軸の目盛り（position はカテゴリ軸・値軸それぞれの方向の座標）
+export interface AxisTick {
+  label: string;
+  position: number;
+}
+
+export interface XyChartSeries {
+  kind: "bar" | "line";
+  color: string;
+}
+
+export interface XyChartDatum {
+  // model.series のインデックス
+  series: number;
+  value: number;
+  // 値の位置（棒の先端・折れ線の頂点）
+  x: number;
+  y: number;
+  // 棒の根元（値 0 の位置）
+  baseX: number;
+  baseY: number;
+  // 棒の太さ
+  thickness: number;
+}
+
+export interface XyChartModel {
+  type: "xychart";
+  title?: string;
+  // true ならカテゴリ軸が縦、値軸が横
+  horizontal: boolean;
+  plot: ChartRect;
+  categoryTitle?: string;
+  valueTitle?: string;
+  categoryTicks: AxisTick[];
+  valueTicks: AxisTick[];
+  series: XyChartSeries[];
+  // 系列ごと、カテゴリ順
+  data: XyChartDatum[];
+  width: number;
+  height: number;
+  // 軸 → 系列ごとに左から（横向きは上から）
+  steps: RevealStep<"axes" | "datum">[];
+}
+
+// ========== Quadrant ==========
+
+export interface QuadrantPoint {
+  label: string;
+  // 0〜1（左下が原点）
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+}
+
+export interface QuadrantModel {
+  type: "quadrant";
+  title?: string;
+  xAxis: { low: string; high: string };
+  yAxis: { low: string; high: string };
+  // quadrant-1（右上）〜 quadrant-4（右下）
+  quadrants: string[];
+  points: QuadrantPoint[];
+  steps: RevealStep<"quadrant" | "point">[];
+}
+
+// ========== Sankey ==========
+
+export interface SankeyNode {
+  id: string;
+  value: number;
+  color: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // 最後の列だけラベルを左に出す
+  labelSide: "left" | "right";
+}
+
+export interface SankeyLink {
+  // model.nodes のインデックス
+  source: number;
+  target: number;
+  value: number;
+  // 帯の中心線の両端と太さ
+  sourceY: number;
+  targetY: number;
+  width: number;
+}
+
+export interface SankeyModel {
+  type: "sankey";
+  nodes: SankeyNode[];
+  links: SankeyLink[];
+  width: number;
+  height: number;
+  // 列ごとに ノード → そこから出る流れ
+  steps: RevealStep<"node" | "link">[];
+}
+
+// ========== 未対応 ==========
+
+type AnimatedModel =
+  | FlowchartModel
+  | SequenceModel
+  | PieModel
+  | StateModel
+  | MindmapModel
+  | ClassModel
+  | ErModel
+  | GanttModel
+  | GitGraphModel
+  | TimelineModel
+  | JourneyModel
+  | XyChartModel
+  | QuadrantModel
+  | SankeyModel;
+
+// 検出はできるがアニメーション未対応の図（MermaidのSVGをそのまま順に表示する）
+export interface UnsupportedModel {
+  type: Exclude<DiagramType, AnimatedModel["type"]>;
+  // 定義の1行 = 1要素として尺を見積もる（実際の要素はブラウザでSVGから拾う）
+  steps: RevealStep<"element">[];
+}
+
+export type DiagramModel = AnimatedModel | UnsupportedModel;
@@ -0,0 +1,170 @@
+import { AxisTick, ChartRect, RevealStep, XyChartDatum, XyChartModel, XyChartSeries } from "./types";
+import { contentLines } from "./text";
+
+// 系列の色（Tableau 10）
+const SERIES_COLORS = ["#4e79a7", "#f28e2b", "#e15759", "#76b7b2", "#59a14f", "#edc948", "#b07aa1", "#ff9da7", "#9c755f", "#bab0ac"];
+
+// レイアウト用の寸法（SVG座標系）
+const WIDTH = 1000;
+const HEIGHT = 600;
+const MARGIN = 40;
+const TITLE_HEIGHT = 50;
+// 目盛りラベルと軸タイトルの分（左は値軸、横向きではカテゴリ軸）
+const LEFT_AXIS_ROOM = 90;
+const HORIZONTAL_LEFT_AXIS_ROOM = 140;
+const BOTTOM_AXIS_ROOM = 70;
+// カテゴリ幅のうち棒が占める割合
+const BAR_FILL = 0.7;
+
+const NUMBER = String.raw`-?\d+(?:\.\d+)?`;
+const RANGE = new RegExp(String.raw`(${NUMBER})\s*-->\s*(${NUMBER})\s*$`);
+
+const unquote = (text: string) => text.trim().replace(/^"(.*)"$/, "$1");
+
+// [a, "b, c", d] の中身
+const listItems = (text: string) => (text.match(/\s*"[^"]*"|[^,]+/g) ?? []).map(unquote).filter(Boolean);
+
+interface ParsedAxis {
+  title?: string;
+  categories?: string[];
+  range?: [number, number];
+}
+
+// x-axis "タイトル" [a, b] / x-axis タイトル 0 --> 100
+function parseAxis(rest: string): ParsedAxis {
+  const axis: ParsedAxis = {};
+  let remaining = rest;
+  const list = remaining.match(/\[(.*)\]\s*$/);
+  if (list) {
+    axis.categories = listItems(list[1]);
+    remaining = remaining.slice(0, list.index);
+  }
+  const range = remaining.match(RANGE);
+  if (range) {
+    axis.range = [parseFloat(range[1]), parseFloat(range[2])];
+    remaining = remaining.slice(0, range.index);
+  }
+  const title = unquote(remaining);
+  if (title) axis.title = title;
+  return axis;
+}
+
+// 1・2・5 × 10^n の目盛り間隔
+function niceStep(span: number, count: number): number {
+  const rough = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= rough) ?? 10;
+  return step * magnitude;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+export function parseXyChart(diagram: string): XyChartModel {
+  const lines = contentLines(diagram);
+  const horizontal = /\bhorizontal\b/.test(lines[0] ?? "");
+  let title: string | undefined;
+  let xAxis: ParsedAxis = {};
+  let yAxis: ParsedAxis = {};
+  const rawSeries: { kind: "bar" | "line"; values: number[] }[] = [];
+
+  lines.slice(1).forEach((line) => {
+    const titleMatch = line.match(/^title\s+(.+)$/);
+    if (titleMatch) {
+      title = unquote(titleMatch[1]);
+      return;
+    }
+    const axis = line.match(/^(x-axis|y-axis)\b\s*(.*)$/);
+    if (axis) {
+      if (axis[1] === "x-axis") xAxis = parseAxis(axis[2]);
+      else yAxis = parseAxis(axis[2]);
+      return;
+    }
+    // bar "名前" [1, 2, 3]
+    const series = line.match(/^(bar|line)\b[^[]*\[(.*)\]\s*$/);
+    if (series) {
+      rawSeries.push({ kind: series[1] as "bar" | "line", values: listItems(series[2]).map(parseFloat).filter((value) => !isNaN(value)) });
+    }
+  });
+
+  // カテゴリ: 指定がなければ数値の範囲を等分、それもなければ 1, 2, ...
+  const count = Math.max(xAxis.categories?.length ?? 0, ...rawSeries.map((series) => series.values.length), 1);
+  const categories =
+    xAxis.categories ??
+    Array.from({ length: count }, (_, i) => {
+      if (!xAxis.range) return String(i + 1);
+      const [min, max] = xAxis.range;
+      return formatNumber(count > 1 ? min + ((max - min) * i) / (count - 1) : min);
+    });
+
+  // 値軸: 指定がなければ 0 を含むデータ範囲をきりのいい値に広げる
+  const values = rawSeries.flatMap((series) => series.values);
+  let [valueMin, valueMax] = yAxis.range ?? [Math.min(0, ...values), Math.max(0, ...values)];
+  const tickStep = niceStep(valueMax - valueMin || 1, 5);
+  if (!yAxis.range) {
+    valueMin = Math.floor(valueMin / tickStep) * tickStep;
+    valueMax = Math.ceil(valueMax / tickStep) * tickStep || tickStep;
+  }
+
+  const top = MARGIN + (title ? TITLE_HEIGHT : 0);
+  const left = MARGIN + (horizontal ? HORIZONTAL_LEFT_AXIS_ROOM : LEFT_AXIS_ROOM);
+  const plot: ChartRect = { x: left, y: top, width: WIDTH - MARGIN - left, height: HEIGHT - MARGIN - BOTTOM_AXIS_ROOM - top };
+
+  // カテゴリ軸は左→右（横向きは上→下）、値軸は下→上（横向きは左→右）
+  const categoryLength = horizontal ? plot.height : plot.width;
+  const band = categoryLength / categories.length;
+  const categoryPosition = (i: number) => (horizontal ? plot.y : plot.x) + band * (i + 0.5);
+  const valuePosition = (value: number) => {
+    const ratio = (value - valueMin) / (valueMax - valueMin || 1);
+    return horizontal ? plot.x + ratio * plot.width : plot.y + plot.height - ratio * plot.height;
+  };
+
+  const categoryTicks: AxisTick[] = categories.map((label, i) => ({ label, position: categoryPosition(i) }));
+  const valueTicks: AxisTick[] = [];
+  for (let value = Math.ceil(valueMin / tickStep) * tickStep; value <= valueMax + tickStep * 1e-9; value += tickStep) {
+    valueTicks.push({ label: formatNumber(value), position: valuePosition(value) });
+  }
+
+  const series: XyChartSeries[] = rawSeries.map((raw, i) => ({ kind: raw.kind, color: SERIES_COLORS[i % SERIES_COLORS.length] }));
+
+  // 棒の系列はカテゴリ内で横に並べる
+  const barSeries = rawSeries.map((raw, i) => (raw.kind === "bar" ? i : -1)).filter((i) => i >= 0);
+  const thickness = (band * BAR_FILL) / Math.max(1, barSeries.length);
+  const base = valuePosition(Math.max(valueMin, Math.min(0, valueMax)));
+
+  const data: XyChartDatum[] = [];
+  const steps: RevealStep<"axes" | "datum">[] = [{ kind: "axes", index: 0 }];
+  rawSeries.forEach((raw, seriesIndex) => {
+    const slot = barSeries.indexOf(seriesIndex);
+    const offset = slot >= 0 ? (slot - (barSeries.length - 1) / 2) * thickness : 0;
+    raw.values.slice(0, categories.length).forEach((value, i) => {
+      const along = categoryPosition(i) + offset;
+      const across = valuePosition(Math.max(valueMin, Math.min(value, valueMax)));
+      steps.push({ kind: "datum", index: data.length });
+      data.push({
+        series: seriesIndex,
+        value,
+        x: horizontal ? across : along,
+        y: horizontal ? along : across,
+        baseX: horizontal ? base : along,
+        baseY: horizontal ? along : base,
+        thickness,
+      });
+    });
+  });
+
+  return {
+    type: "xychart",
+    title,
+    horizontal,
+    plot,
+    categoryTitle: xAxis.title,
+    valueTitle: yAxis.title,
+    categoryTicks,
+    valueTicks,
+    series,
+    data,
+    width: WIDTH,
+    height: HEIGHT,
+    steps,
+  };
+}
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// コンポジションの props スキーマ（CLI の設定ファイルの検証にも使う）
+export const mermaidAnimatedSchema = z.object({
+  diagram: z.string(),
+  backgroundColor: z.string().optional(),
+  framesPerElement: z.number().positive().optional(),
+  fps: z.number().int().positive().optional(),
+  introSeconds: z.number().min(0).optional(),
+  holdSeconds: z.number().min(0).optional(),
+  outroSeconds: z.number().min(0).optional(),
+  durationInSeconds: z.number().positive().optional(),
+});
+
+// 複数の図を1本の動画につなげる（Markdownの全ブロックなど）。durationInSeconds は各スライドの尺
+export const mermaidSlideshowSchema = mermaidAnimatedSchema.omit({ diagram: true }).extend({
+  diagrams: z.array(z.string()).min(1),
+  transitionSeconds: z.number().min(0).optional(),
+});
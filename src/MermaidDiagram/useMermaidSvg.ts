@@ -0,0 +1,47 @@
+import { useEffect, useId, useState } from "react";
+import { getRemotionEnvironment, useDelayRender } from "remotion";
+import mermaid from "mermaid";
+import { diagramHash } from "./model";
+
+// Mermaidで図をSVGにする。完了するまでレンダリングを止める（空のフレームを出さない）
+export function useMermaidSvg(diagram: string): { svg: string | null; error: Error | null } {
+  const { delayRender, continueRender, cancelRender } = useDelayRender();
+  const [handle] = useState(() => delayRender("Rendering Mermaid diagram"));
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  // 同じ図を2つ並べても（--join の同じブロックなど）IDとCSS・マーカーがぶつからないよう、部品ごとに区別する
+  // useId はツリー上の位置で決まるので、並列レンダリングのどのタブでも同じ値になる
+  const instance = useId().replace(/[^\w-]/g, "");
+
+  useEffect(() => {
+    let stale = false;
+
+    const render = async () => {
+      try {
+        // IDは内容と部品の位置から決める（並列レンダリングでも全フレームで同じSVGになる）
+        const { svg: rendered } = await mermaid.render(`mermaid-${diagramHash(diagram)}-${instance}`, diagram);
+        if (stale) return;
+        setSvg(rendered);
+        setError(null);
+      } catch (err) {
+        if (stale) return;
+        const renderError = err instanceof Error ? err : new Error(String(err));
+        setSvg(null);
+        setError(renderError);
+        // レンダリング中はエラーで中断する（CLIが非ゼロで終了する）
+        if (getRemotionEnvironment().isRendering) {
+          cancelRender(renderError);
+        }
+      } finally {
+        continueRender(handle);
+      }
+    };
+    render();
+
+    return () => {
+      stale = true;
+    };
+  }, [diagram, instance, handle, continueRender, cancelRender]);
+
+  return { svg, error };
+}
@@ -1,14 +1,30 @@
 import { Composition } from "remotion";
-import { HelloWorld, myCompSchema } from "./HelloWorld";
-import { Logo, myCompSchema2 } from "./HelloWorld/Logo";
 import { MermaidDiagram, mermaidSchema } from "./MermaidDiagram/MermaidDiagram";
-import { MermaidAnimated, mermaidAnimatedSchema } from "./MermaidDiagram/MermaidAnimated";
+import { MermaidAnimated, calculateMermaidMetadata, mermaidAnimatedSchema } from "./MermaidDiagram/MermaidAnimated";
+import { MermaidSlideshow, calculateSlideshowMetadata, mermaidSlideshowSchema } from "./MermaidDiagram/MermaidSlideshow";
 import {
   branchingFlowchart,
   sequenceDiagram,
   pieChart,
   stateDiagram,
   mindmap,
+  classDiagram,
+  erDiagram,
+  ganttChart,
+  gitGraph,
+  timeline,
+  userJourney,
+  xyChart,
+  quadrantChart,
+  sankeyDiagram,
+  requirementDiagram,
+  flowchartShapes,
+  flowchartLinks,
+  flowchartSubgraphs,
+  styledFlowchart,
+  flowchartLoopback,
+  sequenceParticipants,
+  sequenceBlocks,
 } from "./MermaidDiagram/diagrams";
 
 // Each <Composition> is an entry in the sidebar!
@@ -16,41 +32,6 @@ import {
 export const RemotionRoot: React.FC = () => {
   return (
     <>
-      <Composition
-        // You can take the "id" to render a video:
-        // npx remotion render HelloWorld
-        id="HelloWorld"
-        component={HelloWorld}
-        durationInFrames={150}
-        fps={30}
-        width={1920}
-        height={1080}
-        // You can override these props for each render:
-        // https://www.remotion.dev/docs/parametrized-rendering
-        schema={myCompSchema}
-        defaultProps={{
-          titleText: "Welcome to Remotion",
-          titleColor: "#000000",
-          logoColor1: "#91EAE4",
-          logoColor2: "#86A8E7",
-        }}
-      />
-
-      {/* Mount any React component to make it show up in the sidebar and work on it individually! */}
-      <Composition
-        id="OnlyLogo"
-        component={Logo}
-        durationInFrames={150}
-        fps={30}
-        width={1920}
-        height={1080}
-        schema={myCompSchema2}
-        defaultProps={{
-          logoColor1: "#91dAE2" as const,
-          logoColor2: "#86A8E7" as const,
-        }}
-      />
-
       {/* Mermaid Diagram with animation */}
       <Composition
         id="MermaidDiagram"
@@ -75,7 +56,7 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="MermaidAnimated"
         component={MermaidAnimated}
-        durationInFrames={300}
+        calculateMetadata={calculateMermaidMetadata}
         fps={30}
         width={1920}
         height={1080}
@@ -92,11 +73,27 @@ export const RemotionRoot: React.FC = () => {
         }}
       />
 
+      {/* 複数の図をトランジションでつなぐ（Markdown の --join） */}
+      <Composition
+        id="MermaidSlideshow"
+        component={MermaidSlideshow}
+        calculateMetadata={calculateSlideshowMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidSlideshowSchema}
+        defaultProps={{
+          diagrams: [branchingFlowchart, sequenceDiagram, pieChart],
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 20,
+        }}
+      />
+
       {/* 検証用: 分岐フローチャート */}
       <Composition
         id="BranchingFlow"
         component={MermaidAnimated}
-        durationInFrames={600}
+        calculateMetadata={calculateMermaidMetadata}
         fps={30}
         width={1920}
         height={1080}
@@ -112,7 +109,7 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="SequenceDiagram"
         component={MermaidAnimated}
-        durationInFrames={400}
+        calculateMetadata={calculateMermaidMetadata}
         fps={30}
         width={1920}
         height={1080}
@@ -128,7 +125,7 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="PieChart"
         component={MermaidAnimated}
-        durationInFrames={300}
+        calculateMetadata={calculateMermaidMetadata}
         fps={30}
         width={1920}
         height={1080}
@@ -144,7 +141,7 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="StateDiagram"
         component={MermaidAnimated}
-        durationInFrames={400}
+        calculateMetadata={calculateMermaidMetadata}
         fps={30}
         width={1920}
         height={1080}
@@ -160,7 +157,7 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="Mindmap"
         component={MermaidAnimated}
-        durationInFrames={500}
+        calculateMetadata={calculateMermaidMetadata}
         fps={30}
         width={1920}
         height={1080}
@@ -171,6 +168,278 @@ export const RemotionRoot: React.FC = () => {
           framesPerElement: 15,
         }}
       />
+
+      {/* 検証用: クラス図 */}
+      <Composition
+        id="ClassDiagram"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: classDiagram,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 15,
+        }}
+      />
+
+      {/* 検証用: ER図 */}
+      <Composition
+        id="ErDiagram"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: erDiagram,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 25,
+        }}
+      />
+
+      {/* 検証用: ガントチャート */}
+      <Composition
+        id="GanttChart"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: ganttChart,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 20,
+        }}
+      />
+
+      {/* 検証用: Gitグラフ */}
+      <Composition
+        id="GitGraph"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: gitGraph,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 15,
+        }}
+      />
+
+      {/* 検証用: タイムライン */}
+      <Composition
+        id="Timeline"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: timeline,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 20,
+        }}
+      />
+
+      {/* 検証用: ユーザージャーニー */}
+      <Composition
+        id="UserJourney"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: userJourney,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 25,
+        }}
+      />
+
+      {/* 検証用: XYチャート */}
+      <Composition
+        id="XyChart"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: xyChart,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 15,
+        }}
+      />
+
+      {/* 検証用: 4象限チャート */}
+      <Composition
+        id="QuadrantChart"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: quadrantChart,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 20,
+        }}
+      />
+
+      {/* 検証用: サンキー図 */}
+      <Composition
+        id="SankeyDiagram"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: sankeyDiagram,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 20,
+        }}
+      />
+
+      {/* 検証用: 未対応の図（MermaidのSVGで代替） */}
+      <Composition
+        id="SvgFallback"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: requirementDiagram,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 15,
+        }}
+      />
+
+      {/* 検証用: フローチャートのノード形状 */}
+      <Composition
+        id="FlowchartShapes"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: flowchartShapes,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 15,
+        }}
+      />
+
+      {/* 検証用: フローチャートの線の種類 */}
+      <Composition
+        id="FlowchartLinks"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: flowchartLinks,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 15,
+        }}
+      />
+
+      {/* 検証用: サブグラフ */}
+      <Composition
+        id="FlowchartSubgraphs"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: flowchartSubgraphs,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 15,
+        }}
+      />
+
+      {/* 検証用: スタイル指定 */}
+      <Composition
+        id="StyledFlowchart"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: styledFlowchart,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 20,
+        }}
+      />
+
+      {/* 検証用: 向きと戻り線 */}
+      <Composition
+        id="FlowchartLoopback"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: flowchartLoopback,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 20,
+        }}
+      />
+
+      {/* 検証用: シーケンス図の参加者と矢印 */}
+      <Composition
+        id="SequenceParticipants"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: sequenceParticipants,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 20,
+        }}
+      />
+
+      {/* 検証用: シーケンス図の制御ブロック・ノート・アクティベーション */}
+      <Composition
+        id="SequenceBlocks"
+        component={MermaidAnimated}
+        calculateMetadata={calculateMermaidMetadata}
+        fps={30}
+        width={1920}
+        height={1080}
+        schema={mermaidAnimatedSchema}
+        defaultProps={{
+          diagram: sequenceBlocks,
+          backgroundColor: "#1a1a2e",
+          framesPerElement: 15,
+        }}
+      />
     </>
   );
 };
@@ -0,0 +1,144 @@
+import { existsSync, mkdirSync, statSync, writeFileSync } from "fs";
+import { basename, dirname, extname, relative, resolve } from "path";
+import fg from "fast-glob";
+
+// Helpers for rendering many inputs in one run
+
+const DIAGRAM_EXTENSIONS = "{mmd,md,markdown}";
+
+export interface JobResult {
+  input: string;
+  // Markdown block name, when the input holds several diagrams
+  block?: string;
+  output: string;
+  status: "success" | "failed" | "skipped";
+  durationInMilliseconds: number;
+  error?: string;
+}
+
+// Files, directories (searched recursively) and glob patterns -> unique absolute file paths
+export async function expandInputs(patterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    const path = resolve(pattern);
+    if (existsSync(path) && statSync(path).isFile()) {
+      files.push(path);
+    } else if (existsSync(path) && statSync(path).isDirectory()) {
+      files.push(
+        ...(await fg(`**/*.${DIAGRAM_EXTENSIONS}`, { cwd: path, absolute: true, ignore: ["**/node_modules/**"] })).sort(),
+      );
+    } else {
+      // fast-glob wants forward slashes, even on Windows
+      const matches = await fg(pattern.split("\\").join("/"), { absolute: true, ignore: ["**/node_modules/**"] });
+      if (matches.length === 0) {
+        throw new Error(`No files match: ${pattern}`);
+      }
+      files.push(...matches.sort());
+    }
+  }
+  return [...new Set(files)];
+}
+
+// "{dir}/{name}-{block}{ext}" with dir, name, block, index (1-based) and ext (".mp4", "" for directories)
+export function formatOutputPath(
+  template: string,
+  vars: { input: string; block?: string; index: number; ext: string },
+): string {
+  const name = basename(vars.input, extname(vars.input));
+  // An empty {block} takes the dash or underscore that joined it to the rest of the template with it
+  const trimmed = vars.block ? template : template.replace(/\{block\}[-_]|[-_]?\{block\}/g, "");
+  let output = trimmed
+    .replace(/\{dir\}/g, dirname(vars.input))
+    .replace(/\{name\}/g, name)
+    .replace(/\{index\}/g, String(vars.index))
+    .replace(/\{block\}/g, vars.block ?? "")
+    .replace(/\{ext\}/g, vars.ext);
+
+  // Several blocks but no {block} in the template: keep the outputs apart
+  if (vars.block && !template.includes("{block}")) {
+    const ext = extname(output);
+    output = `${output.slice(0, output.length - ext.length)}-${vars.block}${ext}`;
+  }
+  return output;
+}
+
+export class OutputCollisionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutputCollisionError";
+  }
+}
+
+// Two jobs writing the same file would overwrite each other, so refuse before anything renders
+export function checkOutputCollisions(jobs: { input: string; block?: string; output: string }[], cwd = process.cwd()) {
+  const sources = new Map<string, string[]>();
+  jobs.forEach((job) => {
+    const output = resolve(job.output);
+    sources.set(output, [...(sources.get(output) ?? []), relative(cwd, job.input) + (job.block ? `#${job.block}` : "")]);
+  });
+  const collisions = [...sources].filter(([, inputs]) => inputs.length > 1);
+  if (collisions.length === 0) return;
+  throw new OutputCollisionError(
+    [
+      "Several inputs would be written to the same output:",
+      ...collisions.map(([output, inputs]) => `  ${relative(cwd, output)} <- ${inputs.join(", ")}`),
+      "Use {dir}, {index} or {block} in --output-template to keep them apart",
+    ].join("\n"),
+  );
+}
+
+// Runs fn over items with at most `limit` in flight, keeping result order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+const pad = (text: string, width: number) => text + " ".repeat(Math.max(0, width - text.length));
+
+export function printSummary(results: JobResult[], cwd = process.cwd()) {
+  const icon = { success: "✅", failed: "❌", skipped: "⏭ " };
+  const rows = results.map((r) => [
+    icon[r.status],
+    relative(cwd, r.input) + (r.block ? `#${r.block}` : ""),
+    relative(cwd, resolve(r.output)),
+    `${(r.durationInMilliseconds / 1000).toFixed(1)}s`,
+  ]);
+  const header = ["", "Input", "Output", "Time"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+
+  console.log("");
+  console.log(header.map((h, i) => pad(h, widths[i])).join("  "));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  rows.forEach((row) => console.log(row.map((cell, i) => pad(cell, widths[i])).join("  ")));
+  results
+    .filter((r) => r.error)
+    .forEach((r) => console.log(`\n${relative(cwd, r.input)}${r.block ? `#${r.block}` : ""}: ${r.error}`));
+
+  const succeeded = results.filter((r) => r.status === "success").length;
+  const failed = results.filter((r) => r.status === "failed").length;
+  console.log("");
+  console.log(`${succeeded} succeeded, ${failed} failed, ${results.length - succeeded - failed} skipped`);
+}
+
+export function writeManifest(path: string, results: JobResult[]) {
+  mkdirSync(dirname(resolve(path)), { recursive: true });
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    succeeded: results.filter((r) => r.status === "success").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    results: results.map((r) => ({ ...r, input: resolve(r.input), output: resolve(r.output) })),
+  };
+  writeFileSync(path, JSON.stringify(manifest, null, 2) + "\n");
+}
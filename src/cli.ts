@@ -1,8 +1,44 @@
 #!/usr/bin/env node
-import { execSync } from "child_process";
-import { readFileSync, existsSync } from "fs";
-import { resolve, basename } from "path";
+import { readFileSync, existsSync, statSync, unlinkSync } from "fs";
+import { basename, extname, relative, resolve } from "path";
 import { Command } from "commander";
+import { CancelSignal, makeCancelSignal } from "@remotion/renderer";
+import { DiagramModel, DiagramParseError, computeTimeline, parseDiagram } from "./MermaidDiagram/model";
+import { extractMermaidBlocks } from "./markdown";
+import { DocsBlock, DocsFile, DocsFormat, describeBlock, previousMedia, scanDocs, writeMarkdown } from "./docs";
+import {
+  ConfigError,
+  DEFAULT_SETTINGS,
+  LoadedConfig,
+  RenderSettings,
+  ResolvedSettings,
+  loadConfig,
+  presetSettings,
+  resolveSettings,
+  timingFromSettings,
+  validateSettings,
+} from "./config";
+import {
+  checkOutputCollisions,
+  expandInputs,
+  formatOutputPath,
+  JobResult,
+  mapWithConcurrency,
+  OutputCollisionError,
+  printSummary,
+  writeManifest,
+} from "./batch";
+import {
+  bundleProject,
+  formatFromOutput,
+  OUTPUT_FORMATS,
+  outputExtension,
+  renderVideo,
+  RenderCancelledError,
+  RenderError,
+  sourceDir,
+} from "./render";
+import { watchPaths } from "./watch";
 
 const program = new Command();
 
@@ -10,153 +46,599 @@ program
   .name("mermaid-video")
   .description("Convert Mermaid diagrams to animated videos")
   .version("0.1.0")
-  .argument("<input>", "Mermaid diagram file (.mmd or .md)")
-  .option("-o, --output <file>", "Output video file", "output.mp4")
-  .option("--fps <number>", "Frames per second", "30")
-  .option("--width <number>", "Video width", "1920")
-  .option("--height <number>", "Video height", "1080")
-  .option("--background <color>", "Background color", "#1a1a2e")
-  .option("--speed <number>", "Frames per element (lower = faster)", "20")
-  .option("--duration <number>", "Duration in seconds (auto-calculated if not set)")
-  .action(async (input: string, options) => {
-    const inputPath = resolve(input);
-
-    if (!existsSync(inputPath)) {
-      console.error(`Error: File not found: ${inputPath}`);
+  .enablePositionalOptions();
+
+// Options shared by every command that renders. Render settings have no
+// commander defaults: unset flags leave the config file in charge.
+function addRenderOptions(command: Command): Command {
+  const d = DEFAULT_SETTINGS;
+  return command
+    .option("-c, --config <file>", "Config file (default: mermaid-video.config.ts or .json in the current directory)")
+    .option("--preset <name>", "Apply a preset from the config file")
+    .option("--fps <number>", `Frames per second (default: ${d.fps})`)
+    .option("--width <number>", `Video width (default: ${d.width})`)
+    .option("--height <number>", `Video height (default: ${d.height})`)
+    .option("--background <color>", `Background color (default: ${d.backgroundColor})`)
+    .option("--speed <number>", `Frames per element, lower = faster (default: ${d.framesPerElement})`)
+    .option("--duration <number>", "Duration in seconds, per block with --join (auto-calculated if not set)")
+    .option("--intro <seconds>", `Seconds before the first element appears (default: ${d.introSeconds})`)
+    .option("--hold <seconds>", `Seconds to hold the finished diagram (default: ${d.holdSeconds})`)
+    .option("--outro <seconds>", `Seconds of fade-out at the end (default: ${d.outroSeconds})`)
+    .option("--transparent", "Transparent background (webm, prores or png-sequence)")
+    .option("--gif-loops <count>", "GIF: times to repeat after the first play (default: forever)")
+    .option("--every-nth-frame <n>", "GIF: keep only every nth frame for smaller files (default: 1)")
+    .option("-j, --jobs <number>", "Number of videos to render in parallel", "1")
+    .option("--manifest <file>", "Write a JSON manifest of the results");
+}
+
+addRenderOptions(
+  program
+    .argument("<inputs...>", "Mermaid diagram files (.mmd or .md), directories or globs")
+    .option("-o, --output <file>", "Output file, or directory for png-sequence (single input; default: output.<format>)")
+    .option(
+      "--output-template <template>",
+      "Output path for several inputs; {dir}, {name}, {block}, {index} and {ext} are replaced",
+      "{dir}/{name}{ext}",
+    )
+    .option(`--format <format>`, `Output format: ${OUTPUT_FORMATS.join(", ")} (default: from -o, else mp4)`),
+)
+  .option("--all", "Markdown input: render every mermaid block to its own video")
+  .option("--join", "Markdown input: join every mermaid block into one video")
+  .option("--transition <seconds>", `Cross-fade between blocks with --join (default: ${DEFAULT_SETTINGS.transitionSeconds})`)
+  .option("-w, --watch", "Re-render whenever an input changes")
+  .action(async (inputs: string[], options) => {
+    let inputPaths: string[];
+    try {
+      inputPaths = await expandInputs(inputs);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    if (inputPaths.length === 0) {
+      console.error("Error: No .mmd or .md files found");
       process.exit(1);
     }
 
-    // Read the Mermaid diagram
-    let diagram = readFileSync(inputPath, "utf-8");
-
-    // If it's a markdown file, extract mermaid code block
-    if (inputPath.endsWith(".md")) {
-      const match = diagram.match(/```mermaid\n([\s\S]*?)\n```/);
-      if (match) {
-        diagram = match[1];
-      } else {
-        console.error("Error: No mermaid code block found in markdown file");
+    // A single file keeps the plain -o behavior; anything else uses the template.
+    // The argument may be a glob that matched one file, so check it exists before stat-ing it
+    const literal = resolve(inputs[0]);
+    const single = inputs.length === 1 && inputPaths.length === 1 && existsSync(literal) && statSync(literal).isFile();
+    if (single && options.output) {
+      // -o out.gif still picks the format, as `npx remotion render` did
+      const fromOutput = formatFromOutput(options.output);
+      if (options.format && fromOutput && options.format !== fromOutput) {
+        console.error(`Error: Output ${options.output} does not match --format ${options.format}`);
         process.exit(1);
       }
+      options.format ??= fromOutput ?? undefined;
     }
+    if (!single && options.output) {
+      console.error("Error: -o/--output only applies to a single input file; use --output-template for several inputs");
+      process.exit(1);
+    }
+    let config = loadRunConfigOrExit(options);
+
+    const outputFor: OutputNamer = (input, index, ext, block) =>
+      single
+        ? outputForBlock(options.output ?? `output${ext}`, block)
+        : formatOutputPath(options.outputTemplate, { input, block, index, ext });
 
     console.log("📊 Mermaid Video Generator");
     console.log("========================");
-    console.log(`Input: ${basename(inputPath)}`);
-    console.log(`Output: ${options.output}`);
-    console.log(`Resolution: ${options.width}x${options.height}`);
-    console.log(`FPS: ${options.fps}`);
-    console.log(`Speed: ${options.speed} frames/element`);
-    console.log("");
+    console.log(single ? `Input: ${basename(inputPaths[0])}` : `Inputs: ${inputPaths.length} files`);
+    console.log(single ? `Output: ${options.output ?? "output.<format>"}` : `Output: ${options.outputTemplate}`);
+    printConfig(config);
 
-    // Detect diagram type for duration calculation
-    const diagramType = detectDiagramType(diagram);
-    const elementCount = estimateElementCount(diagram, diagramType);
-    const framesPerElement = parseInt(options.speed);
-    const fps = parseInt(options.fps);
-
-    // Calculate duration
-    let durationInFrames: number;
-    if (options.duration) {
-      durationInFrames = parseInt(options.duration) * fps;
-    } else {
-      // Auto-calculate: elements * framesPerElement + buffer
-      durationInFrames = elementCount * framesPerElement + fps * 2; // 2 second buffer
+    if (!options.watch) {
+      const { jobs, failures } = buildJobs(inputPaths, options, config, outputFor);
+      if (single && failures.length > 0) {
+        console.error(`Error: ${failures[0].error}`);
+        process.exit(1);
+      }
+      await renderJobsOrExit(jobs, options, failures);
+      return;
     }
 
-    console.log(`Diagram type: ${diagramType}`);
-    console.log(`Estimated elements: ${elementCount}`);
-    console.log(`Duration: ${(durationInFrames / fps).toFixed(1)}s (${durationInFrames} frames)`);
-    console.log("");
+    // Watch mode: errors are printed and the next change triggers another try
+    let current: { cancel: () => void } | null = null;
+    const pending = new Set<string>();
+
+    const run = async (changed: string[]) => {
+      let paths = changed;
+      while (paths.length > 0) {
+        pending.clear();
+        const { cancelSignal, cancel } = makeCancelSignal();
+        let cancelled = false;
+        current = {
+          cancel: () => {
+            cancelled = true;
+            cancel();
+          },
+        };
+        try {
+          const { jobs, failures } = buildJobs(paths, options, config, outputFor);
+          const results = await renderJobs(jobs, options, { cancelSignal, isCancelled: () => cancelled });
+          if (cancelled && pending.size > 0) {
+            console.log("🔁 Input changed, restarting render");
+            // The interrupted inputs still need a render
+            results.filter((r) => r.status === "skipped").forEach((r) => pending.add(r.input));
+          } else {
+            if (inputPaths.length > 1) printSummary([...failures, ...results]);
+            failures.forEach((failure) => console.error(`❌ ${failure.error}`));
+          }
+        } catch (error) {
+          process.stdout.write("\n");
+          reportError(error);
+        }
+        current = null;
+        paths = [...pending];
+      }
+      console.log("");
+      console.log("👀 Watching for changes... (Ctrl-C to exit)");
+    };
+
+    const trigger = (changed: string[]) => {
+      if (current) {
+        // A newer version of the input wins over the running render
+        changed.forEach((path) => pending.add(path));
+        current.cancel();
+        return;
+      }
+      run(changed);
+    };
 
-    // Prepare props for Remotion
-    const props = JSON.stringify({
-      diagram,
-      backgroundColor: options.background,
-      framesPerElement,
+    watchPaths(inputPaths, (changed) => {
+      console.log("");
+      changed.forEach((path) => console.log(`✏️  ${basename(path)} changed`));
+      trigger(changed);
+    });
+    if (config.loaded.path) {
+      watchPaths([config.loaded.path], () => {
+        console.log("");
+        try {
+          config = loadRunConfig(options);
+          console.log(`⚙️  ${basename(config.loaded.path!)} changed`);
+        } catch (error) {
+          // Keep rendering with the last valid config
+          reportError(error);
+          return;
+        }
+        trigger(inputPaths);
+      });
+    }
+    // Project source changes need a new bundle; diagram text changes do not
+    if (sourceDir) {
+      watchPaths([sourceDir], () => {
+        console.log("");
+        console.log("🧩 Source changed, re-bundling on next render");
+        invalidateBundle();
+        trigger(inputPaths);
+      });
+    }
+    process.on("SIGINT", () => {
+      current?.cancel();
+      process.exit(130);
     });
 
-    // Build the remotion render command
-    const renderCommand = [
-      "npx remotion render",
-      "MermaidAnimated",
-      `"${options.output}"`,
-      `--props='${props}'`,
-      `--width=${options.width}`,
-      `--height=${options.height}`,
-      `--fps=${options.fps}`,
-      `--frames=0-${durationInFrames - 1}`,
-    ].join(" ");
-
-    console.log("🎬 Rendering...");
-    console.log("");
+    await run(inputPaths);
+  });
 
+addRenderOptions(
+  program
+    .command("docs")
+    .description("Render mermaid blocks in Markdown files and insert the media below each block")
+    .argument("<dir>", "Directory to scan for Markdown files"),
+)
+  .option("--format <format>", "Media format: gif, mp4 or webm", "gif")
+  .option("--assets <dir>", "Media directory, relative to each Markdown file", "assets")
+  .option("--force", "Re-render blocks even when their content hash is unchanged")
+  .option("--check", "Only report out-of-date blocks; exit 1 if there are any")
+  .action(async (dir: string, options) => {
+    const root = resolve(dir);
+    if (!existsSync(root) || !statSync(root).isDirectory()) {
+      console.error(`Error: Directory not found: ${root}`);
+      process.exit(1);
+    }
+    if (!["gif", "mp4", "webm"].includes(options.format)) {
+      console.error(`Error: Unsupported format "${options.format}" (expected gif, mp4 or webm)`);
+      process.exit(1);
+    }
+
+    // --format is also the format setting, so every block resolves to it
+    const config = loadRunConfigOrExit(options);
+    let files: DocsFile[];
     try {
-      execSync(renderCommand, {
-        stdio: "inherit",
-        cwd: resolve(__dirname, ".."),
+      files = scanDocs(root, {
+        format: options.format as DocsFormat,
+        assetsDir: options.assets,
+        renderKey: (path) => JSON.stringify(config.settingsFor(path)),
       });
-      console.log("");
-      console.log(`✅ Video saved to: ${options.output}`);
     } catch (error) {
-      console.error("❌ Render failed");
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
       process.exit(1);
     }
-  });
 
-function detectDiagramType(diagram: string): string {
-  const trimmed = diagram.trim().toLowerCase();
-  if (trimmed.startsWith("flowchart") || trimmed.startsWith("graph")) return "flowchart";
-  if (trimmed.startsWith("sequencediagram")) return "sequence";
-  if (trimmed.startsWith("pie")) return "pie";
-  if (trimmed.startsWith("statediagram")) return "state";
-  if (trimmed.startsWith("mindmap")) return "mindmap";
-  if (trimmed.startsWith("classdiagram")) return "class";
-  if (trimmed.startsWith("erdiagram")) return "er";
-  if (trimmed.startsWith("gantt")) return "gantt";
-  return "unknown";
-}
-
-function estimateElementCount(diagram: string, type: string): number {
-  const lines = diagram.split("\n").filter((l) => l.trim());
-
-  switch (type) {
-    case "flowchart": {
-      // Count nodes and edges
-      const nodeMatches = diagram.match(/\w+\[/g) || [];
-      const edgeMatches = diagram.match(/-->/g) || [];
-      return nodeMatches.length + edgeMatches.length;
-    }
-    case "sequence": {
-      // Count participants and messages
-      const participants = (diagram.match(/participant/gi) || []).length;
-      const messages = (diagram.match(/->|-->/g) || []).length;
-      return participants + messages;
-    }
-    case "pie": {
-      // Count title + segments
-      const segments = (diagram.match(/".+"\s*:/g) || []).length;
-      return 1 + segments; // title + segments
-    }
-    case "state": {
-      // Count states and transitions
-      const states = new Set<string>();
-      lines.forEach((line) => {
-        const match = line.match(/(\w+)\s*-->/);
-        if (match) states.add(match[1]);
-        const match2 = line.match(/-->\s*(\w+)/);
-        if (match2) states.add(match2[1]);
+    const stale = files.flatMap((file) =>
+      file.blocks.filter((b) => options.force || !b.upToDate).map((docsBlock) => ({ file, docsBlock })),
+    );
+    const total = files.reduce((sum, file) => sum + file.blocks.length, 0);
+
+    console.log("📚 Mermaid Video Docs");
+    console.log("========================");
+    console.log(`Markdown files: ${files.length}`);
+    console.log(`Mermaid blocks: ${total} (${stale.length} to render, ${total - stale.length} up to date)`);
+    console.log("");
+
+    if (options.check) {
+      stale.forEach(({ file, docsBlock }) => console.log(`  ✗ ${describeBlock(file, docsBlock, root)}`));
+      process.exit(stale.length > 0 ? 1 : 0);
+    }
+    if (stale.length === 0) return;
+
+    printConfig(config);
+
+    // Markdown is updated right after each block renders, so a failure keeps earlier work
+    const rendered = new Set<DocsBlock>();
+    const mediaPaths = new Set(files.flatMap((file) => file.blocks.map((b) => b.mediaPath)));
+    const jobs: RenderJob[] = [];
+    const failures: JobResult[] = [];
+    for (const { file, docsBlock } of stale) {
+      const settings = config.settingsFor(file.path);
+      try {
+        printDiagramSummary(docsBlock.block.code, settings, describeBlock(file, docsBlock, root));
+      } catch (error) {
+        failures.push(failedResult(file.path, docsBlock.mediaPath, error, docsBlock.block.name));
+        continue;
+      }
+      jobs.push({
+        input: file.path,
+        block: docsBlock.block.name,
+        compositionId: "MermaidAnimated",
+        inputProps: { diagram: docsBlock.block.code, backgroundColor: backgroundFor(settings), ...timingFromSettings(settings) },
+        output: docsBlock.mediaPath,
+        settings,
+        onRendered: () => {
+          rendered.add(docsBlock);
+          if (writeMarkdown(file, rendered)) {
+            console.log(`📝 Updated ${describeBlock(file, docsBlock, root)}`);
+          }
+          // A new --format or heading renames the media, which would leave the old file behind
+          const previous = previousMedia(file, docsBlock);
+          if (previous && !mediaPaths.has(previous) && existsSync(previous)) {
+            unlinkSync(previous);
+            console.log(`🗑  Removed ${relative(root, previous)}`);
+          }
+        },
       });
-      const transitions = (diagram.match(/-->/g) || []).length;
-      return states.size + transitions;
     }
-    case "mindmap": {
-      // Count all non-empty, non-directive lines
-      return lines.filter((l) => !l.trim().toLowerCase().startsWith("mindmap")).length;
+
+    await renderJobsOrExit(jobs, options, failures);
+  });
+
+interface RenderJob {
+  input: string;
+  block?: string;
+  compositionId: string;
+  inputProps: Record<string, unknown>;
+  output: string;
+  settings: ResolvedSettings;
+  onRendered?: () => void;
+}
+
+interface RunConfig {
+  loaded: LoadedConfig;
+  preset?: string;
+  settingsFor: (input: string) => ResolvedSettings;
+}
+
+// Flags that map onto render settings, validated like the config file
+function settingsFromFlags(options: Record<string, string | undefined>): RenderSettings {
+  const number = (value?: string) => (value === undefined ? undefined : Number(value));
+  return validateSettings("command line options", {
+    fps: number(options.fps),
+    width: number(options.width),
+    height: number(options.height),
+    backgroundColor: options.background,
+    framesPerElement: number(options.speed),
+    durationInSeconds: number(options.duration),
+    introSeconds: number(options.intro),
+    holdSeconds: number(options.hold),
+    outroSeconds: number(options.outro),
+    transitionSeconds: number(options.transition),
+    format: options.format,
+    transparent: options.transparent ? true : undefined,
+    gifLoops: number(options.gifLoops),
+    everyNthFrame: number(options.everyNthFrame),
+  });
+}
+
+// Throws ConfigError on a missing or invalid config file, bad flags or an unknown preset
+function loadRunConfig(options: Record<string, string | undefined>): RunConfig {
+  const loaded = loadConfig(options.config);
+  const cli = settingsFromFlags(options);
+  const preset = options.preset;
+  if (preset) presetSettings(loaded, preset);
+  return { loaded, preset, settingsFor: (input) => resolveSettings(loaded, input, { preset, cli }) };
+}
+
+function loadRunConfigOrExit(options: Record<string, string | undefined>): RunConfig {
+  try {
+    return loadRunConfig(options);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+// The composition draws its background; transparent output needs it left out
+const backgroundFor = (settings: ResolvedSettings) => (settings.transparent ? "transparent" : settings.backgroundColor);
+
+function printConfig({ loaded, preset }: RunConfig) {
+  if (loaded.path) console.log(`Config: ${loaded.path}`);
+  if (preset) console.log(`Preset: ${preset}`);
+  console.log("");
+}
+
+// ext is the format's extension, "" for png-sequence directories
+type OutputNamer = (input: string, index: number, ext: string, block?: string) => string;
+
+const failedResult = (input: string, output: string, error: unknown, block?: string): JobResult => ({
+  input,
+  block,
+  output,
+  status: "failed",
+  durationInMilliseconds: 0,
+  error: error instanceof Error ? error.message : String(error),
+});
+
+// Turns every input into render jobs; unusable inputs become failures instead of stopping the batch
+function buildJobs(inputPaths: string[], options: Record<string, string>, config: RunConfig, outputFor: OutputNamer) {
+  const jobs: RenderJob[] = [];
+  const failures: JobResult[] = [];
+  inputPaths.forEach((inputPath, i) => {
+    let ext = outputExtension(DEFAULT_SETTINGS.format);
+    try {
+      const settings = config.settingsFor(inputPath);
+      ext = outputExtension(settings.format);
+      jobs.push(...buildInputJobs(inputPath, options, settings, (block) => outputFor(inputPath, i + 1, ext, block)));
+    } catch (error) {
+      failures.push(failedResult(inputPath, outputFor(inputPath, i + 1, ext), error));
+    }
+  });
+  return { jobs, failures };
+}
+
+// Reads the input file and turns it into render jobs; throws on unusable input
+function buildInputJobs(
+  inputPath: string,
+  options: Record<string, string>,
+  settings: ResolvedSettings,
+  outputFor: (block?: string) => string,
+): RenderJob[] {
+  if (!existsSync(inputPath)) {
+    throw new Error(`File not found: ${inputPath}`);
+  }
+
+  const source = readFileSync(inputPath, "utf-8");
+
+  // Markdown files may hold several diagrams; .mmd files are a single one
+  let diagrams: { name: string; code: string }[];
+  if (/\.(md|markdown)$/i.test(inputPath)) {
+    const blocks = extractMermaidBlocks(source);
+    if (blocks.length === 0) {
+      throw new Error("No mermaid code block found in markdown file");
+    }
+    if (options.all || options.join) {
+      diagrams = blocks;
+    } else {
+      diagrams = [blocks[0]];
+      if (blocks.length > 1) {
+        console.log(`Note: ${blocks.length} mermaid blocks found, rendering the first (use --all or --join)`);
+      }
     }
-    default:
-      return lines.length;
+  } else {
+    diagrams = [{ name: basename(inputPath, extname(inputPath)), code: source }];
+  }
+
+  const timing = timingFromSettings(settings);
+  const label = (name: string) => (diagrams.length > 1 ? `${basename(inputPath)}#${name}` : basename(inputPath));
+  for (const { name, code } of diagrams) {
+    printDiagramSummary(code, settings, label(name));
   }
+
+  // Props are passed to Remotion as objects, never through a shell
+  if (options.join) {
+    return [
+      {
+        input: inputPath,
+        compositionId: "MermaidSlideshow",
+        inputProps: {
+          diagrams: diagrams.map((d) => d.code),
+          backgroundColor: backgroundFor(settings),
+          transitionSeconds: settings.transitionSeconds,
+          // A fixed duration applies to each block, not to the joined video
+          ...timing,
+        },
+        output: outputFor(),
+        settings,
+      },
+    ];
+  }
+  return diagrams.map(({ name, code }) => {
+    const block = diagrams.length > 1 ? name : undefined;
+    return {
+      input: inputPath,
+      block,
+      compositionId: "MermaidAnimated",
+      inputProps: { diagram: code, backgroundColor: backgroundFor(settings), ...timing },
+      output: outputFor(block),
+      settings,
+    };
+  });
+}
+
+// Parse once with the same model the renderer uses; throws DiagramParseError
+function printDiagramSummary(code: string, settings: ResolvedSettings, name: string) {
+  let model: DiagramModel;
+  try {
+    model = parseDiagram(code);
+  } catch (error) {
+    if (error instanceof DiagramParseError) {
+      throw new DiagramParseError(`${name}: ${error.message}`);
+    }
+    throw error;
+  }
+  const { durationInFrames } = computeTimeline(model.steps.length, timingFromSettings(settings));
+
+  console.log(`[${name}]`);
+  console.log(`Diagram type: ${model.type}`);
+  console.log(`Elements: ${model.steps.length}`);
+  console.log(
+    `Video: ${settings.format}${settings.transparent ? " (transparent)" : ""}, ${settings.width}x${settings.height} @ ${settings.fps}fps, ${settings.framesPerElement} frames/element`,
+  );
+  console.log(`Duration: ${(durationInFrames / settings.fps).toFixed(1)}s (${durationInFrames} frames)`);
+  console.log("");
+}
+
+// The bundle only depends on the project source, so it is reused across renders
+let bundle: Promise<string> | null = null;
+
+function getServeUrl(): Promise<string> {
+  if (!bundle) {
+    console.log("📦 Bundling...");
+    const pending = bundleProject((progress) => {
+      process.stdout.write(`\r   ${Math.round(progress * 100)}%`);
+    }).then((serveUrl) => {
+      process.stdout.write("\n");
+      return serveUrl;
+    });
+    bundle = pending;
+    // A failed bundle is retried next time, unless watch mode has already started a newer one
+    pending.catch(() => {
+      if (bundle === pending) bundle = null;
+    });
+  }
+  return bundle;
+}
+
+function invalidateBundle() {
+  bundle = null;
+}
+
+// Renders the jobs with up to --jobs in parallel. A failed job does not stop the
+// others; after cancellation the remaining jobs are skipped. Only a failed bundle throws.
+async function renderJobs(
+  jobs: RenderJob[],
+  options: Record<string, string>,
+  { cancelSignal, isCancelled }: { cancelSignal: CancelSignal; isCancelled: () => boolean },
+): Promise<JobResult[]> {
+  if (jobs.length === 0) return [];
+  checkOutputCollisions(jobs);
+  const serveUrl = await getServeUrl();
+
+  const parallel = Math.max(1, parseInt(options.jobs) || 1);
+
+  return mapWithConcurrency(jobs, parallel, async (job): Promise<JobResult> => {
+    const label = job.block ? `${basename(job.input)}#${job.block}` : basename(job.input);
+    const skipped: JobResult = { input: job.input, block: job.block, output: job.output, status: "skipped", durationInMilliseconds: 0 };
+    if (isCancelled()) return skipped;
+
+    const startedAt = Date.now();
+    let lastMilestone = 0;
+    console.log(`🎬 Rendering ${job.output}...`);
+
+    try {
+      await renderVideo({
+        serveUrl,
+        compositionId: job.compositionId,
+        inputProps: job.inputProps,
+        outputLocation: resolve(job.output),
+        width: job.settings.width,
+        height: job.settings.height,
+        format: job.settings.format,
+        transparent: job.settings.transparent,
+        gifLoops: job.settings.gifLoops,
+        everyNthFrame: job.settings.everyNthFrame,
+        cancelSignal,
+        isCancelled,
+        onProgress: ({ renderedFrames, totalFrames, progress, etaInMilliseconds }) => {
+          if (parallel > 1) {
+            // Interleaved jobs cannot share one status line: log every 25%
+            const milestone = Math.floor(progress * 4) * 25;
+            if (milestone > lastMilestone) {
+              lastMilestone = milestone;
+              console.log(`   [${label}] ${milestone}%`);
+            }
+            return;
+          }
+          const eta = etaInMilliseconds > 0 ? ` ETA ${(etaInMilliseconds / 1000).toFixed(0)}s` : "";
+          process.stdout.write(
+            `\r   ${renderedFrames}/${totalFrames} frames (${Math.round(progress * 100)}%)${eta}   `,
+          );
+        },
+      });
+      if (parallel === 1) process.stdout.write("\n");
+      console.log(`✅ Saved to: ${job.output}`);
+      job.onRendered?.();
+      return { input: job.input, block: job.block, output: job.output, status: "success", durationInMilliseconds: Date.now() - startedAt };
+    } catch (error) {
+      if (parallel === 1) process.stdout.write("\n");
+      if (error instanceof RenderCancelledError) return skipped;
+      console.error(`❌ ${label}: ${error instanceof Error ? error.message : error}`);
+      return { ...failedResult(job.input, job.output, error, job.block), durationInMilliseconds: Date.now() - startedAt };
+    }
+  });
+}
+
+function reportError(error: unknown) {
+  if (error instanceof RenderCancelledError) {
+    console.error("⏹  Render cancelled");
+  } else if (error instanceof RenderError) {
+    console.error(`❌ Render failed (${error.stage}): ${error.message}`);
+  } else if (error instanceof DiagramParseError || error instanceof ConfigError || error instanceof OutputCollisionError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error("❌ Render failed:", error);
+  }
+}
+
+// One-shot rendering: Ctrl-C cancels, any failure exits non-zero
+async function renderJobsOrExit(jobs: RenderJob[], options: Record<string, string>, failures: JobResult[] = []) {
+  // Ctrl-C cancels the running render instead of leaving Chrome/ffmpeg behind
+  const { cancelSignal, cancel } = makeCancelSignal();
+  let cancelled = false;
+  process.on("SIGINT", () => {
+    if (cancelled) process.exit(130);
+    cancelled = true;
+    console.log("");
+    console.log("⏹  Cancelling...");
+    cancel();
+  });
+
+  let results: JobResult[];
+  try {
+    results = [...failures, ...(await renderJobs(jobs, options, { cancelSignal, isCancelled: () => cancelled }))];
+  } catch (error) {
+    process.stdout.write("\n");
+    reportError(error);
+    process.exit(1);
+  }
+
+  if (cancelled) console.error("⏹  Render cancelled");
+  if (results.length > 1) printSummary(results);
+  if (options.manifest) {
+    writeManifest(options.manifest, results);
+    console.log(`🧾 Manifest written to: ${options.manifest}`);
+  }
+  if (cancelled) process.exit(130);
+  if (results.some((r) => r.status === "failed")) process.exit(1);
+}
+
+// out.mp4 + "setup-flow" -> out-setup-flow.mp4
+function outputForBlock(output: string, block?: string): string {
+  if (!block) return output;
+  const ext = extname(output);
+  return `${output.slice(0, output.length - ext.length)}-${block}${ext}`;
 }
 
 program.parse();
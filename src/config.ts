@@ -0,0 +1,216 @@
+import { existsSync, readFileSync } from "fs";
+import { createRequire } from "module";
+import { basename, dirname, extname, resolve } from "path";
+import fg from "fast-glob";
+import { z } from "zod";
+import { mermaidAnimatedSchema, mermaidSlideshowSchema } from "./MermaidDiagram/schema";
+import {
+  DEFAULT_FPS,
+  DEFAULT_FRAMES_PER_ELEMENT,
+  DEFAULT_HOLD_SECONDS,
+  DEFAULT_INTRO_SECONDS,
+  DEFAULT_OUTRO_SECONDS,
+  DEFAULT_TRANSITION_SECONDS,
+  TimingOptions,
+} from "./MermaidDiagram/model";
+import { OUTPUT_FORMATS, TRANSPARENT_FORMATS } from "./render";
+
+// mermaid-video.config.(json|ts): defaults, named presets and per-file overrides
+
+export const CONFIG_FILES = ["mermaid-video.config.ts", "mermaid-video.config.json"];
+
+// Composition props (minus the diagram itself) plus the video size and output format
+export const renderSettingsSchema = mermaidAnimatedSchema
+  .omit({ diagram: true })
+  .merge(mermaidSlideshowSchema.pick({ transitionSeconds: true }))
+  .extend({
+    width: z.number().int().positive().optional(),
+    height: z.number().int().positive().optional(),
+    format: z.enum(OUTPUT_FORMATS).optional(),
+    transparent: z.boolean().optional(),
+    gifLoops: z.number().int().min(0).optional(),
+    everyNthFrame: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const overrideSchema = renderSettingsSchema.extend({ preset: z.string().optional() });
+
+export const configSchema = z
+  .object({
+    defaults: renderSettingsSchema.optional(),
+    presets: z.record(renderSettingsSchema).optional(),
+    // Keys are globs relative to the config file
+    overrides: z.record(overrideSchema).optional(),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    Object.entries(config.overrides ?? {}).forEach(([pattern, override]) => {
+      if (override.preset !== undefined && !config.presets?.[override.preset]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["overrides", pattern, "preset"],
+          message: `Unknown preset "${override.preset}"`,
+        });
+      }
+    });
+  });
+
+export type RenderSettings = z.infer<typeof renderSettingsSchema>;
+export type MermaidVideoConfig = z.infer<typeof configSchema>;
+
+// Everything but the fixed duration and the GIF loop count always has a value
+export type ResolvedSettings = Required<Omit<RenderSettings, "durationInSeconds" | "gifLoops">> &
+  Pick<RenderSettings, "durationInSeconds" | "gifLoops">;
+
+export const DEFAULT_SETTINGS: ResolvedSettings = {
+  fps: DEFAULT_FPS,
+  width: 1920,
+  height: 1080,
+  backgroundColor: "#1a1a2e",
+  framesPerElement: DEFAULT_FRAMES_PER_ELEMENT,
+  introSeconds: DEFAULT_INTRO_SECONDS,
+  holdSeconds: DEFAULT_HOLD_SECONDS,
+  outroSeconds: DEFAULT_OUTRO_SECONDS,
+  transitionSeconds: DEFAULT_TRANSITION_SECONDS,
+  format: "mp4",
+  transparent: false,
+  everyNthFrame: 1,
+};
+
+export interface LoadedConfig {
+  // undefined when no config file was found
+  path?: string;
+  config: MermaidVideoConfig;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// "presets.social-vertical.fps: Expected number, received string"
+function formatIssues(source: string, error: z.ZodError): string {
+  const lines = error.issues.flatMap((issue) => {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      return issue.keys.map((key) => `${[...issue.path, key].join(".")}: Unknown option`);
+    }
+    return [`${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`];
+  });
+  return [`Invalid ${source}:`, ...lines.map((line) => `  ${line}`)].join("\n");
+}
+
+function readConfigFile(path: string): unknown {
+  if (extname(path) === ".json") {
+    try {
+      return JSON.parse(readFileSync(path, "utf-8"));
+    } catch (error) {
+      throw new ConfigError(`Invalid ${basename(path)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  // Compile the TypeScript config through tsx's API, so it also loads from the
+  // built CLI. A new namespace per load has its own module cache, which lets
+  // watch mode pick up edits.
+  const tsx: TsxApi = createRequire(__filename)("tsx/cjs/api");
+  const scoped = tsx.register({ namespace: `mermaid-video-config-${++configLoads}` });
+  try {
+    const mod = scoped.require(path, __filename);
+    return mod.default ?? mod;
+  } finally {
+    scoped.unregister();
+  }
+}
+
+// The part of tsx/cjs/api used above (its types need node16 module resolution)
+interface TsxApi {
+  register: (options: { namespace: string }) => {
+    require: (id: string, fromFile: string) => { default?: unknown };
+    unregister: () => void;
+  };
+}
+let configLoads = 0;
+
+// An explicit path must exist; otherwise look for mermaid-video.config.* in cwd
+export function loadConfig(explicitPath?: string, cwd = process.cwd()): LoadedConfig {
+  let path: string | undefined;
+  if (explicitPath) {
+    path = resolve(cwd, explicitPath);
+    if (!existsSync(path)) {
+      throw new ConfigError(`Config file not found: ${path}`);
+    }
+  } else {
+    path = CONFIG_FILES.map((name) => resolve(cwd, name)).find((candidate) => existsSync(candidate));
+  }
+  if (!path) return { config: {} };
+
+  const result = configSchema.safeParse(readConfigFile(path));
+  if (!result.success) {
+    throw new ConfigError(formatIssues(basename(path), result.error));
+  }
+  return { path, config: result.data };
+}
+
+// Validates settings that did not come from the config file (e.g. CLI flags)
+export function validateSettings(source: string, settings: Record<string, unknown>): RenderSettings {
+  const defined = Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+  const result = renderSettingsSchema.safeParse(defined);
+  if (!result.success) {
+    throw new ConfigError(formatIssues(source, result.error));
+  }
+  return result.data;
+}
+
+export function presetSettings({ config, path }: LoadedConfig, name: string): RenderSettings {
+  const preset = config.presets?.[name];
+  if (!preset) {
+    const known = Object.keys(config.presets ?? {});
+    throw new ConfigError(
+      `Unknown preset "${name}"` +
+        (path ? ` in ${basename(path)}` : " (no config file found)") +
+        (known.length > 0 ? `; available: ${known.join(", ")}` : ""),
+    );
+  }
+  return preset;
+}
+
+// Built-in defaults < config defaults < --preset < matching overrides < CLI flags
+export function resolveSettings(
+  loaded: LoadedConfig,
+  input: string,
+  { preset, cli = {} }: { preset?: string; cli?: RenderSettings } = {},
+): ResolvedSettings {
+  const layers: RenderSettings[] = [loaded.config.defaults ?? {}];
+  if (preset) layers.push(presetSettings(loaded, preset));
+
+  if (loaded.path) {
+    const cwd = dirname(loaded.path);
+    Object.entries(loaded.config.overrides ?? {}).forEach(([pattern, override]) => {
+      const matches = fg.sync(pattern, { cwd, absolute: true }).map((match) => resolve(match));
+      if (!matches.includes(resolve(input))) return;
+      const { preset: overridePreset, ...settings } = override;
+      if (overridePreset) layers.push(presetSettings(loaded, overridePreset));
+      layers.push(settings);
+    });
+  }
+  layers.push(cli);
+
+  const settings = layers.reduce<ResolvedSettings>((merged, layer) => ({ ...merged, ...layer }), DEFAULT_SETTINGS);
+  if (settings.transparent && !TRANSPARENT_FORMATS.includes(settings.format)) {
+    throw new ConfigError(
+      `Format "${settings.format}" has no alpha channel; use ${TRANSPARENT_FORMATS.join(", ")} for transparent output`,
+    );
+  }
+  return settings;
+}
+
+export function timingFromSettings(settings: ResolvedSettings): TimingOptions {
+  return {
+    fps: settings.fps,
+    framesPerElement: settings.framesPerElement,
+    introSeconds: settings.introSeconds,
+    holdSeconds: settings.holdSeconds,
+    outroSeconds: settings.outroSeconds,
+    durationInSeconds: settings.durationInSeconds,
+  };
+}
@@ -0,0 +1,143 @@
+import { createHash } from "crypto";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, dirname, extname, join, relative, resolve } from "path";
+import { extractMermaidBlocks, MermaidBlock } from "./markdown";
+
+// Keeps rendered media next to the mermaid fences of Markdown docs
+
+export type DocsFormat = "gif" | "mp4" | "webm";
+
+export interface DocsBlock {
+  block: MermaidBlock;
+  hash: string;
+  // Absolute path of the rendered media
+  mediaPath: string;
+  // Path written into the Markdown, relative to the file
+  reference: string;
+  // true when the marker's hash matches and the media exists
+  upToDate: boolean;
+}
+
+export interface DocsFile {
+  path: string;
+  source: string;
+  blocks: DocsBlock[];
+}
+
+export interface ScanDocsOptions {
+  format: DocsFormat;
+  // Media directory, relative to each Markdown file
+  assetsDir: string;
+  // Anything else that changes a file's rendered output (fps, size, colors...)
+  renderKey: (path: string) => string;
+}
+
+const MARKER = /^<!-- mermaid-video: ([0-9a-f]+) -->$/;
+
+function findMarkdownFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findMarkdownFiles(path));
+    } else if (/\.(md|markdown)$/i.test(entry.name)) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+// Index of the marker line belonging to a block, if one follows the closing fence
+function findMarker(lines: string[], block: MermaidBlock): number | null {
+  let i = block.endLine + 1;
+  if (lines[i]?.trim() === "") i++;
+  return MARKER.test(lines[i]?.trim() ?? "") ? i : null;
+}
+
+export function scanDocs(dir: string, options: ScanDocsOptions): DocsFile[] {
+  return findMarkdownFiles(resolve(dir)).map((path) => {
+    const source = readFileSync(path, "utf-8");
+    const lines = source.split(/\r?\n/);
+    const stem = basename(path, extname(path));
+    const renderKey = options.renderKey(path);
+
+    const blocks = extractMermaidBlocks(source).map((block) => {
+      const hash = createHash("sha256")
+        .update(`${options.format}\n${renderKey}\n${block.code}`)
+        .digest("hex")
+        .slice(0, 12);
+      const reference = join(options.assetsDir, `${stem}-${block.name}.${options.format}`).split("\\").join("/");
+      const mediaPath = join(dirname(path), reference);
+
+      const markerLine = findMarker(lines, block);
+      const currentHash = markerLine === null ? null : lines[markerLine].trim().match(MARKER)![1];
+      return { block, hash, mediaPath, reference, upToDate: currentHash === hash && existsSync(mediaPath) };
+    });
+
+    return { path, source, blocks };
+  });
+}
+
+function mediaReference(docsBlock: DocsBlock): string {
+  const alt = docsBlock.block.heading ?? docsBlock.block.name;
+  if (docsBlock.reference.endsWith(".gif")) {
+    return `![${alt}](${docsBlock.reference})`;
+  }
+  return `<video src="${docsBlock.reference}" title="${alt.replace(/"/g, "&quot;")}" autoplay loop muted playsinline></video>`;
+}
+
+// The media embedded by the line under a marker, if it is ours: it points into the assets dir,
+// though possibly under an older name (another format or heading)
+function embeddedMedia(line: string | undefined, docsBlock: DocsBlock): string | null {
+  if (line === undefined) return null;
+  const embedded = line.trim().match(/^!\[[^\]]*\]\(([^)]+)\)$|^<video src="([^"]+)"/);
+  const src = embedded?.[1] ?? embedded?.[2];
+  return src !== undefined && dirname(src) === dirname(docsBlock.reference) ? src : null;
+}
+
+// Absolute path of the media a block's marker currently embeds, if any
+export function previousMedia(file: DocsFile, docsBlock: DocsBlock): string | null {
+  const lines = file.source.split(/\r?\n/);
+  const markerLine = findMarker(lines, docsBlock.block);
+  const src = markerLine === null ? null : embeddedMedia(lines[markerLine + 1], docsBlock);
+  return src === null ? null : resolve(dirname(file.path), src);
+}
+
+// Insert or replace the marker + media reference right below each block
+export function updateMarkdown(file: DocsFile, rendered: Set<DocsBlock>): string {
+  const newline = file.source.includes("\r\n") ? "\r\n" : "\n";
+  const lines = file.source.split(/\r?\n/);
+
+  // Bottom-up, so earlier line numbers stay valid
+  [...file.blocks].reverse().forEach((docsBlock) => {
+    if (!rendered.has(docsBlock)) return;
+    const reference = [`<!-- mermaid-video: ${docsBlock.hash} -->`, mediaReference(docsBlock)];
+    let markerLine = findMarker(lines, docsBlock.block);
+    if (markerLine !== null) {
+      // Only replace the next line if it is the reference we generated; it may have been edited away
+      lines.splice(markerLine, embeddedMedia(lines[markerLine + 1], docsBlock) !== null ? 2 : 1, ...reference);
+    } else {
+      markerLine = docsBlock.block.endLine + 2;
+      lines.splice(docsBlock.block.endLine + 1, 0, "", ...reference);
+    }
+    // Without a blank line, a paragraph right below would swallow the media line
+    const next = lines[markerLine + reference.length];
+    if (next !== undefined && next.trim() !== "") {
+      lines.splice(markerLine + reference.length, 0, "");
+    }
+  });
+
+  return lines.join(newline);
+}
+
+export function writeMarkdown(file: DocsFile, rendered: Set<DocsBlock>): boolean {
+  const updated = updateMarkdown(file, rendered);
+  if (updated === file.source) return false;
+  writeFileSync(file.path, updated);
+  return true;
+}
+
+export function describeBlock(file: DocsFile, docsBlock: DocsBlock, root: string): string {
+  return `${relative(root, file.path)}#${docsBlock.block.name}`;
+}
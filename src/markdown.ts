@@ -0,0 +1,75 @@
+// Extraction of ```mermaid fences from Markdown
+
+export interface MermaidBlock {
+  // 0-based position among the mermaid blocks of the file
+  index: number;
+  code: string;
+  // Nearest heading above the block, if any
+  heading?: string;
+  // File-name friendly name: heading slug, or "block-N"
+  name: string;
+  // 0-based line numbers of the opening and closing fence
+  startLine: number;
+  endLine: number;
+}
+
+const OPENING_FENCE = /^( {0,3})(`{3,}|~{3,})\s*mermaid(?:[\s{].*)?$/;
+const ANY_OPENING_FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/[\s-]+/g, "-");
+}
+
+export function extractMermaidBlocks(markdown: string): MermaidBlock[] {
+  const lines = markdown.split(/\r?\n/);
+  const blocks: MermaidBlock[] = [];
+  const usedNames = new Set<string>();
+  let heading: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const headingMatch = line.match(HEADING);
+    if (headingMatch) {
+      heading = headingMatch[1];
+      continue;
+    }
+
+    const fenceMatch = line.match(OPENING_FENCE) ?? line.match(ANY_OPENING_FENCE);
+    if (!fenceMatch) continue;
+
+    // Closing fence: same character, at least as long as the opening one
+    const isMermaid = OPENING_FENCE.test(line);
+    const fence = isMermaid ? fenceMatch[2] : fenceMatch[1];
+    const indent = isMermaid ? fenceMatch[1].length : 0;
+    const closing = new RegExp(`^ {0,3}${fence[0] === "`" ? "`" : "~"}{${fence.length},}\\s*$`);
+
+    let end = i + 1;
+    while (end < lines.length && !closing.test(lines[end])) end++;
+
+    if (isMermaid) {
+      // Remove the fence's own indentation from the content lines
+      const code = lines
+        .slice(i + 1, end)
+        .map((l) => l.replace(new RegExp(`^ {0,${indent}}`), ""))
+        .join("\n");
+
+      let name = heading ? slugify(heading) : "";
+      if (!name || usedNames.has(name)) {
+        name = name ? `${name}-${blocks.length + 1}` : `block-${blocks.length + 1}`;
+      }
+      usedNames.add(name);
+
+      blocks.push({ index: blocks.length, code, heading, name, startLine: i, endLine: end });
+    }
+
+    i = end;
+  }
+
+  return blocks;
+}
@@ -0,0 +1,237 @@
+import { existsSync, mkdirSync } from "fs";
+import { dirname, extname, resolve } from "path";
+import { bundle } from "@remotion/bundler";
+import {
+  CancelSignal,
+  Codec,
+  PixelFormat,
+  renderFrames,
+  renderMedia,
+  selectComposition,
+} from "@remotion/renderer";
+
+// The installed bin ships a Remotion bundle built next to the compiled CLI (`npm run build`)
+const prebuiltBundle = resolve(__dirname, "bundle");
+const hasPrebuiltBundle = existsSync(resolve(prebuiltBundle, "index.html"));
+
+// Run from a source checkout (tsx), the entry point sits next to this file and is bundled on demand
+const entryPoint = hasPrebuiltBundle ? null : require.resolve("./index");
+
+// Only a source checkout can be re-bundled, so watch mode only watches the source then
+export const sourceDir = entryPoint ? dirname(entryPoint) : null;
+
+export type RenderStage = "bundle" | "select" | "render";
+
+export class RenderError extends Error {
+  readonly stage: RenderStage;
+  readonly cause: unknown;
+
+  constructor(stage: RenderStage, message: string, cause?: unknown) {
+    super(message);
+    this.name = "RenderError";
+    this.stage = stage;
+    this.cause = cause;
+  }
+}
+
+export class RenderCancelledError extends RenderError {
+  constructor(stage: RenderStage) {
+    super(stage, "Render was cancelled");
+    this.name = "RenderCancelledError";
+  }
+}
+
+export interface RenderProgress {
+  renderedFrames: number;
+  encodedFrames: number;
+  totalFrames: number;
+  progress: number;
+  // Estimated time remaining in milliseconds
+  etaInMilliseconds: number;
+}
+
+export const OUTPUT_FORMATS = ["mp4", "gif", "webm", "prores", "png-sequence"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// Formats that keep an alpha channel: WebM (VP9 + yuva420p), ProRes 4444 and PNG frames
+export const TRANSPARENT_FORMATS: readonly OutputFormat[] = ["webm", "prores", "png-sequence"];
+
+// A PNG sequence is written into a directory, so it has no extension
+export function outputExtension(format: OutputFormat): string {
+  switch (format) {
+    case "prores":
+      return ".mov";
+    case "png-sequence":
+      return "";
+    default:
+      return `.${format}`;
+  }
+}
+
+// Same extension mapping `npx remotion render` used, so existing -o values keep working
+export function formatFromOutput(outputLocation: string): OutputFormat | null {
+  switch (extname(outputLocation).toLowerCase()) {
+    case ".mp4":
+      return "mp4";
+    case ".webm":
+      return "webm";
+    case ".gif":
+      return "gif";
+    case ".mov":
+      return "prores";
+    default:
+      return null;
+  }
+}
+
+export interface RenderVideoOptions {
+  serveUrl: string;
+  compositionId: string;
+  inputProps: Record<string, unknown>;
+  outputLocation: string;
+  width: number;
+  height: number;
+  format: OutputFormat;
+  // Keeps the alpha channel; the composition must draw a transparent background
+  transparent?: boolean;
+  // GIF only: how often the GIF repeats after the first play (undefined = forever)
+  gifLoops?: number;
+  // GIF only: render every nth frame to keep the file small
+  everyNthFrame?: number;
+  cancelSignal?: CancelSignal;
+  isCancelled?: () => boolean;
+  onProgress?: (progress: RenderProgress) => void;
+}
+
+interface EncodingSettings {
+  codec: Codec;
+  imageFormat: "jpeg" | "png";
+  pixelFormat?: PixelFormat;
+  proResProfile?: "hq" | "4444";
+}
+
+// JPEG frames are faster, but only PNG frames carry transparency
+function encodingFor(format: Exclude<OutputFormat, "png-sequence">, transparent: boolean): EncodingSettings {
+  switch (format) {
+    case "gif":
+      return { codec: "gif", imageFormat: "jpeg" };
+    case "webm":
+      return transparent
+        ? { codec: "vp9", imageFormat: "png", pixelFormat: "yuva420p" }
+        : { codec: "vp8", imageFormat: "jpeg" };
+    case "prores":
+      return transparent
+        ? { codec: "prores", imageFormat: "png", pixelFormat: "yuva444p10le", proResProfile: "4444" }
+        : { codec: "prores", imageFormat: "jpeg", proResProfile: "hq" };
+    default:
+      return { codec: "h264", imageFormat: "jpeg" };
+  }
+}
+
+const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Bundle the Remotion project once; the returned serve URL can be reused for many renders
+export async function bundleProject(onProgress?: (progress: number) => void): Promise<string> {
+  if (!entryPoint) {
+    onProgress?.(1);
+    return prebuiltBundle;
+  }
+  try {
+    // The project root is the closest package.json above the entry point
+    return await bundle({
+      entryPoint,
+      onProgress: (progress) => onProgress?.(progress / 100),
+    });
+  } catch (error) {
+    throw new RenderError("bundle", `Failed to bundle project: ${describe(error)}`, error);
+  }
+}
+
+export async function renderVideo({
+  serveUrl,
+  compositionId,
+  inputProps,
+  outputLocation,
+  width,
+  height,
+  format,
+  transparent = false,
+  gifLoops,
+  everyNthFrame = 1,
+  cancelSignal,
+  isCancelled = () => false,
+  onProgress,
+}: RenderVideoOptions): Promise<void> {
+  if (transparent && !TRANSPARENT_FORMATS.includes(format)) {
+    throw new RenderError("render", `Format "${format}" does not support transparency`);
+  }
+
+  let composition;
+  try {
+    composition = await selectComposition({ serveUrl, id: compositionId, inputProps });
+  } catch (error) {
+    if (isCancelled()) throw new RenderCancelledError("select");
+    throw new RenderError("select", `Failed to load composition "${compositionId}": ${describe(error)}`, error);
+  }
+
+  // Duration and fps come from the composition's calculateMetadata
+  const sizedComposition = { ...composition, width, height };
+
+  try {
+    if (format === "png-sequence") {
+      // One PNG per frame in the output directory
+      mkdirSync(outputLocation, { recursive: true });
+      await renderFrames({
+        serveUrl,
+        composition: sizedComposition,
+        inputProps,
+        imageFormat: "png",
+        outputDir: outputLocation,
+        cancelSignal,
+        onStart: () => undefined,
+        onFrameUpdate: (renderedFrames, _frame, timeToRenderInMilliseconds) => {
+          const remaining = composition.durationInFrames - renderedFrames;
+          onProgress?.({
+            renderedFrames,
+            encodedFrames: renderedFrames,
+            totalFrames: composition.durationInFrames,
+            progress: renderedFrames / composition.durationInFrames,
+            etaInMilliseconds: (timeToRenderInMilliseconds / Math.max(1, renderedFrames)) * remaining,
+          });
+        },
+      });
+      return;
+    }
+
+    const { codec, imageFormat, pixelFormat, proResProfile } = encodingFor(format, transparent);
+    const gif = format === "gif";
+    mkdirSync(dirname(outputLocation), { recursive: true });
+    await renderMedia({
+      serveUrl,
+      composition: sizedComposition,
+      inputProps,
+      codec,
+      imageFormat,
+      pixelFormat,
+      proResProfile,
+      // Remotion: null loops forever, 0 plays once
+      numberOfGifLoops: gif ? (gifLoops ?? null) : undefined,
+      everyNthFrame: gif ? everyNthFrame : undefined,
+      outputLocation,
+      overwrite: true,
+      cancelSignal,
+      onProgress: ({ renderedFrames, encodedFrames, progress, renderEstimatedTime }) => {
+        onProgress?.({
+          renderedFrames,
+          encodedFrames,
+          totalFrames: composition.durationInFrames,
+          progress,
+          etaInMilliseconds: renderEstimatedTime,
+        });
+      },
+    });
+  } catch (error) {
+    if (isCancelled()) throw new RenderCancelledError("render");
+    throw new RenderError("render", `Failed to render video: ${describe(error)}`, error);
+  }
+}
@@ -0,0 +1,51 @@
+import { FSWatcher, statSync, watch } from "fs";
+import { basename, dirname, resolve } from "path";
+
+// Calls onChange (debounced) when any of the given files or directories change.
+// Files are watched through their directory, so editors that save by replacing
+// the file (write to temp + rename) are still picked up.
+export function watchPaths(
+  paths: string[],
+  onChange: (changed: string[]) => void,
+  debounceInMilliseconds = 200,
+): () => void {
+  const watchers: FSWatcher[] = [];
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const schedule = (path: string) => {
+    changed.add(path);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const paths = [...changed];
+      changed.clear();
+      onChange(paths);
+    }, debounceInMilliseconds);
+  };
+
+  for (const path of paths.map((p) => resolve(p))) {
+    let isDirectory = false;
+    try {
+      isDirectory = statSync(path).isDirectory();
+    } catch {
+      // Not created yet: watch the parent directory for it
+    }
+
+    if (isDirectory) {
+      watchers.push(watch(path, { recursive: true }, (_event, filename) => schedule(resolve(path, filename ?? ""))));
+    } else {
+      const name = basename(path);
+      watchers.push(
+        watch(dirname(path), (_event, filename) => {
+          if (filename === name) schedule(path);
+        }),
+      );
+    }
+  }
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watchers.forEach((watcher) => watcher.close());
+  };
+}